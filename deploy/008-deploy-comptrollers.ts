@@ -4,20 +4,15 @@ import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
 import { getConfig } from "../helpers/deploymentConfig";
-import { getUnregisteredPools, toAddress } from "../helpers/deploymentUtils";
+import { deployComptroller, getUnregisteredPools } from "../helpers/deploymentUtils";
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployments, getNamedAccounts } = hre;
   const { deploy } = deployments;
   const { deployer } = await getNamedAccounts();
   const deploymentConfig = await getConfig(hre.network.name);
-  const { poolConfig, preconfiguredAddresses } = deploymentConfig;
+  const { poolConfig } = deploymentConfig;
   const poolRegistry = await ethers.getContract("PoolRegistry");
-  const accessControlManagerAddress = await toAddress(
-    preconfiguredAddresses.AccessControlManager || "AccessControlManager",
-    hre,
-  );
-  const maxLoopsLimit = 100;
 
   // Comptroller Beacon
   const comptrollerImpl: DeployResult = await deploy("ComptrollerImpl", {
@@ -28,7 +23,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
     autoMine: true,
   });
 
-  const comptrollerBeacon: DeployResult = await deploy("ComptrollerBeacon", {
+  await deploy("ComptrollerBeacon", {
     contract: "UpgradeableBeacon",
     from: deployer,
     args: [comptrollerImpl.address],
@@ -38,20 +33,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 
   const unregisteredPools = await getUnregisteredPools(poolConfig, hre);
   for (const pool of unregisteredPools) {
-    // Deploying a proxy for Comptroller
-    console.log(`Deploying a proxy for Comptroller of the pool ${pool.name}`);
-    const Comptroller = await ethers.getContractFactory("Comptroller");
-
-    await deploy(`Comptroller_${pool.id}`, {
-      from: deployer,
-      contract: "BeaconProxy",
-      args: [
-        comptrollerBeacon.address,
-        Comptroller.interface.encodeFunctionData("initialize", [maxLoopsLimit, accessControlManagerAddress]),
-      ],
-      log: true,
-      autoMine: true,
-    });
+    await deployComptroller(pool, deploymentConfig, hre);
   }
 };
 
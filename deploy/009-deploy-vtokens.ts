@@ -1,29 +1,16 @@
-import { BigNumber, BigNumberish } from "ethers";
-import { parseUnits } from "ethers/lib/utils";
 import { ethers } from "hardhat";
 import { DeployResult } from "hardhat-deploy/dist/types";
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
-import { blocksPerYear, getConfig, getTokenConfig } from "../helpers/deploymentConfig";
-import { InterestRateModels } from "../helpers/deploymentConfig";
-import { getUnregisteredVTokens, toAddress } from "../helpers/deploymentUtils";
-import { AddressOne } from "../helpers/utils";
-
-const mantissaToBps = (num: BigNumberish) => {
-  return BigNumber.from(num).div(parseUnits("1", 14)).toString();
-};
+import { getConfig } from "../helpers/deploymentConfig";
+import { deployVToken, getComptrollerName, getUnregisteredVTokens } from "../helpers/deploymentUtils";
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployments, getNamedAccounts } = hre;
   const { deploy } = deployments;
   const { deployer } = await getNamedAccounts();
-  const { tokensConfig, poolConfig, preconfiguredAddresses } = await getConfig(hre.network.name);
-
-  const accessControlManagerAddress = await toAddress(
-    preconfiguredAddresses.AccessControlManager || "AccessControlManager",
-    hre,
-  );
+  const deploymentConfig = await getConfig(hre.network.name);
 
   // VToken Beacon
   const vTokenImpl: DeployResult = await deploy("VTokenImpl", {
@@ -34,7 +21,7 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
     autoMine: true,
   });
 
-  const vTokenBeacon: DeployResult = await deploy("VTokenBeacon", {
+  await deploy("VTokenBeacon", {
     contract: "UpgradeableBeacon",
     from: deployer,
     args: [vTokenImpl.address],
@@ -42,95 +29,13 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
     autoMine: true,
   });
 
-  const poolsWithUnregisteredVTokens = await getUnregisteredVTokens(poolConfig, hre);
+  const poolsWithUnregisteredVTokens = await getUnregisteredVTokens(deploymentConfig.poolConfig, hre);
   for (const pool of poolsWithUnregisteredVTokens) {
-    const comptrollerProxy = await ethers.getContract(`Comptroller_${pool.id}`);
+    const comptrollerProxy = await ethers.getContract(getComptrollerName(pool));
 
     // Deploy Markets
     for (const vtoken of pool.vtokens) {
-      const {
-        name,
-        asset,
-        symbol,
-        rateModel,
-        baseRatePerYear,
-        multiplierPerYear,
-        jumpMultiplierPerYear,
-        kink_,
-        reserveFactor,
-      } = vtoken;
-
-      const token = getTokenConfig(asset, tokensConfig);
-      let tokenContract;
-      if (token.isMock) {
-        tokenContract = await ethers.getContract(`Mock${token.symbol}`);
-      } else {
-        tokenContract = await ethers.getContractAt(
-          "@openzeppelin/contracts/token/ERC20/ERC20.sol:ERC20",
-          token.tokenAddress,
-        );
-      }
-
-      let rateModelAddress: string;
-      const BLOCKS_PER_YEAR: number = blocksPerYear[hre.network.name];
-      if (rateModel === InterestRateModels.JumpRate.toString()) {
-        const [b, m, j, k] = [baseRatePerYear, multiplierPerYear, jumpMultiplierPerYear, kink_].map(mantissaToBps);
-        const rateModelName = `JumpRateModelV2_base${b}bps_slope${m}bps_jump${j}bps_kink${k}bps`;
-        console.log(`Deploying interest rate model ${rateModelName}`);
-        const result: DeployResult = await deploy(rateModelName, {
-          from: deployer,
-          contract: "JumpRateModelV2",
-          args: [
-            BLOCKS_PER_YEAR,
-            baseRatePerYear,
-            multiplierPerYear,
-            jumpMultiplierPerYear,
-            kink_,
-            accessControlManagerAddress,
-          ],
-          log: true,
-          autoMine: true,
-        });
-        rateModelAddress = result.address;
-      } else {
-        const [b, m] = [baseRatePerYear, multiplierPerYear].map(mantissaToBps);
-        const rateModelName = `WhitePaperInterestRateModel_base${b}bps_slope${m}bps`;
-        console.log(`Deploying interest rate model ${rateModelName}`);
-        const result: DeployResult = await deploy(rateModelName, {
-          from: deployer,
-          contract: "WhitePaperInterestRateModel",
-          args: [BLOCKS_PER_YEAR, baseRatePerYear, multiplierPerYear],
-          log: true,
-          autoMine: true,
-        });
-        rateModelAddress = result.address;
-      }
-
-      console.log(`Deploying VToken proxy for ${symbol}`);
-      const VToken = await ethers.getContractFactory("VToken");
-      const underlyingDecimals = Number(await tokenContract.decimals());
-      const vTokenDecimals = 8;
-      const treasuryAddress = await toAddress(preconfiguredAddresses.VTreasury || "VTreasury", hre);
-      const args = [
-        tokenContract.address,
-        comptrollerProxy.address,
-        rateModelAddress,
-        parseUnits("1", underlyingDecimals + 18 - vTokenDecimals),
-        name,
-        symbol,
-        vTokenDecimals,
-        preconfiguredAddresses.NormalTimelock || deployer, // admin
-        accessControlManagerAddress,
-        [AddressOne, treasuryAddress],
-        reserveFactor,
-      ];
-      await deploy(`VToken_${symbol}`, {
-        from: deployer,
-        contract: "BeaconProxy",
-        args: [vTokenBeacon.address, VToken.interface.encodeFunctionData("initialize", args)],
-        log: true,
-        autoMine: true,
-      });
+      await deployVToken(vtoken, comptrollerProxy.address, deploymentConfig, hre);
       console.log(`-----------------------------------------`);
     }
   }
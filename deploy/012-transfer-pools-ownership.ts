@@ -3,6 +3,7 @@ import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
 import { PoolConfig, getConfig } from "../helpers/deploymentConfig";
+import { getComptrollerName, getRewardsDistributorName, transfer2StepOwnerships } from "../helpers/deploymentUtils";
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await getNamedAccounts();
@@ -12,11 +13,11 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const rewardsDistributors = poolConfig
     .map((pool: PoolConfig) => {
       const rewards = pool.rewards || [];
-      return rewards.map((_, idx: number) => `RewardsDistributor_${pool.id}_${idx}`);
+      return rewards.map(reward => getRewardsDistributorName(pool, reward));
     })
     .flat();
 
-  const comptrollers = poolConfig.map((pool: PoolConfig) => `Comptroller_${pool.id}`);
+  const comptrollers = poolConfig.map((pool: PoolConfig) => getComptrollerName(pool));
 
   const contracts = {
     singleStepOwnership: ["ComptrollerBeacon", "VTokenBeacon"],
@@ -27,32 +28,6 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   await transfer2StepOwnerships(contracts.twoStepOwnership, targetOwner);
 };
 
-const transfer2StepOwnerships = async (contractNames: string[], targetOwner: string) => {
-  const abi = [
-    "function owner() view returns (address)",
-    "function pendingOwner() view returns (address)",
-    "function transferOwnership(address newOwner)",
-  ];
-  for (const contractName of contractNames) {
-    const contractAddress = (await ethers.getContract(contractName)).address;
-    const contract = await ethers.getContractAt(abi, contractAddress);
-    const owner = await contract.owner();
-    const pendingOwner = await contract.pendingOwner();
-
-    let tx;
-    if (owner !== targetOwner && pendingOwner !== targetOwner) {
-      tx = await contract.transferOwnership(targetOwner);
-      await tx.wait(1);
-      const pendingOwner = await contract.pendingOwner();
-      console.log(
-        `${contractName} owner ${owner} sucessfully changed to ${pendingOwner}. Please accept the ownership.`,
-      );
-    } else {
-      console.error(`${contractName} owner ${owner} is equal to target ownership address ${targetOwner}`);
-    }
-  }
-};
-
 const transferSingleStepOwnerships = async (contractNames: string[], targetOwner: string) => {
   for (const contractName of contractNames) {
     const contract = await ethers.getContract(contractName);
@@ -10,40 +10,57 @@ import * as dotenv from "dotenv";
 import "hardhat-deploy";
 import { DeployResult } from "hardhat-deploy/types";
 import "hardhat-gas-reporter";
-import { HardhatUserConfig, extendConfig, task, types } from "hardhat/config";
+import { HardhatUserConfig, extendConfig, extendProvider, task } from "hardhat/config";
 import { HardhatConfig } from "hardhat/types";
 import "solidity-coverage";
 import "solidity-docgen";
 
-import { convertToUnit } from "./helpers/utils";
-import { execSync } from 'child_process';
+import { SignerConfig, getRpcUrl, networks } from "./helpers/networks";
+import { extendWithSigner } from "./helpers/signerProviders";
+import "./tasks";
 
 dotenv.config();
-// Use the 1Password CLI to fetch the private key
-const DEPLOYER_PRIVATE_KEY: string = execSync('op read op://Private/PrivateWallet/PK', { encoding: 'utf-8' }).trim();
+
+// Live networks without a signer of their own sign with the deployer key of the environment, read from a keystore,
+// an env variable or 1Password only when the network needs an account, and are read-only when no key is set
+const deployerSigner = (): SignerConfig => {
+  if (process.env.DEPLOYER_KEYSTORE) {
+    return {
+      type: "keystore",
+      path: process.env.DEPLOYER_KEYSTORE,
+      passphraseVariable: "DEPLOYER_KEYSTORE_PASSPHRASE",
+    };
+  }
+  if (process.env.DEPLOYER_PRIVATE_KEY) {
+    return { type: "env", variable: "DEPLOYER_PRIVATE_KEY" };
+  }
+  if (process.env.DEPLOYER_1PASSWORD_REFERENCE) {
+    return { type: "1password", reference: process.env.DEPLOYER_1PASSWORD_REFERENCE };
+  }
+  return { type: "none" };
+};
+
+extendProvider(extendWithSigner);
+
+const liveNetworks = Object.keys(networks).filter(name => networks[name].live);
+
+// Explorers of the networks hardhat-etherscan does not know about
+const explorers = liveNetworks.flatMap(name => {
+  const { chainId, explorer } = networks[name];
+  return explorer ? [{ network: name, chainId, urls: explorer }] : [];
+});
 
 extendConfig((config: HardhatConfig) => {
   if (process.env.EXPORT !== "true") {
+    const deployments = Object.entries(networks)
+      .filter(([, network]) => network.externalDeployments.length > 0)
+      .map(([name, network]) => [
+        name,
+        network.externalDeployments.map(packageName => `node_modules/${packageName}/deployments/${name}`),
+      ]);
     config.external = {
       ...config.external,
-      deployments: {
-        bsctestnet: [
-          "node_modules/@venusprotocol/oracle/deployments/bsctestnet",
-          "node_modules/@venusprotocol/venus-protocol/deployments/bsctestnet",
-          "node_modules/@venusprotocol/protocol-reserve/deployments/bsctestnet",
-        ],
-        sepolia: [
-          "node_modules/@venusprotocol/oracle/deployments/sepolia",
-          "node_modules/@venusprotocol/venus-protocol/deployments/sepolia",
-          "node_modules/@venusprotocol/protocol-reserve/deployments/sepolia",
-        ],
-        ethereum: [
-          "node_modules/@venusprotocol/oracle/deployments/ethereum",
-          "node_modules/@venusprotocol/venus-protocol/deployments/ethereum",
-          "node_modules/@venusprotocol/protocol-reserve/deployments/ethereum",
-        ],
-        bscmainnet: ["node_modules/@venusprotocol/protocol-reserve/deployments/bscmainnet"],
-      },
+      deployments: Object.fromEntries(deployments),
     };
   }
 });
@@ -58,47 +75,6 @@ task("accounts", "Prints the list of accounts", async (taskArgs, hre) => {
   }
 });
 
-task("addMarket", "Add a market to an existing pool")
-  .addParam("proxyAdmin", "Admin of vToken proxy")
-  .addParam("poolid", "ID of pool to add a market", 1, types.int)
-  .addParam("asset", "asset (ERC20) address", "0x0000000000000000000000000000000000000000", types.string)
-  .addParam("decimals", "asset decimal places", 8, types.int)
-  .addParam("name", "name of the market", undefined, types.string)
-  .addParam("symbol", "symbol of market", undefined, types.string)
-  .addParam("rateModel", "0 - WhitePaper ; 1- JumpRate", 0, types.int)
-  .addParam("baseRate", "base rate per year", 0, types.int)
-  .addParam("multiplier", "multiplier per year", "40000000000000000", types.string)
-  .addParam("jumpMul", "jump multiplier per yer", 0, types.int)
-  .addParam("kink", "kink rate", 0, types.int)
-  .addParam("collFactor", "collateral factor is exonented to 18 decimals (e.g input = input*10**18)", 0.7, types.float)
-  .setAction(async (taskArgs, hre) => {
-    const VBep20Immutable = await hre.ethers.getContractFactory("VBep20Immutable");
-    const tokenImplementation = await VBep20Immutable.deploy();
-    await tokenImplementation.deployed();
-
-    const poolRegistry = await hre.ethers.getContract("PoolRegistry");
-    const accessControl = await hre.ethers.getContract("AccessControlManager");
-
-    await poolRegistry.addMarket({
-      comptroller: taskArgs.comptroller,
-      asset: taskArgs.asset,
-      decimals: taskArgs.decimals,
-      name: taskArgs.name,
-      symbol: taskArgs.symbol,
-      rateModel: taskArgs.rateModel,
-      baseRatePerYear: taskArgs.baseRate,
-      multiplierPerYear: taskArgs.multiplier,
-      jumpMultiplierPerYear: taskArgs.jumpMul,
-      kink_: taskArgs.kink,
-      collateralFactor: convertToUnit(taskArgs.collFactor, 18),
-      accessControlManager: accessControl.address,
-      vTokenProxyAdmin: taskArgs.proxyAdmin,
-      tokenImplementation_: tokenImplementation.address,
-    });
-
-    console.log("Market " + taskArgs.name + " added successfully to pool " + taskArgs.comptroller);
-  });
-
 task("deployComptroller", "Deploys a Comptroller Implementation")
   .addParam("contractName", "Contract name, later we can load contracts by name")
   .addParam("poolRegistry", "Address of PoolRegistry Contract")
@@ -114,32 +90,6 @@ task("deployComptroller", "Deploys a Comptroller Implementation")
     console.log("Comptroller implementation deployed with address: " + Comptroller.address);
   });
 
-task("createPool", "Creates a pool via PoolRegistry")
-  .addParam("poolName", "Name of the pool")
-  .addParam("comptroller", "Address of comptroller implementation")
-  .addParam("oracle", "Contract name, later we can load contracts by name")
-  .addParam("closeFactor", "Close factor for pool")
-  .addParam("liquidationIncentive", "Liquidation incentive for pool")
-  .setAction(async (taskArgs, hre) => {
-    const poolRegistry = await hre.ethers.getContract("PoolRegistry");
-    await poolRegistry.createRegistryPool(
-      taskArgs.poolName,
-      taskArgs.comptroller,
-      taskArgs.closeFactor,
-      taskArgs.liquidationIncentive,
-      taskArgs.minLiquidatableCollateral,
-      taskArgs.oracle,
-    );
-
-    const pools = await poolRegistry.callStatic.getAllPools();
-    await hre.ethers.getContractAt("Comptroller", pools[0].comptroller);
-
-    const unitroller = await hre.ethers.getContractAt("Unitroller", pools[0].comptroller);
-    await unitroller._acceptAdmin();
-
-    console.log("Pool " + taskArgs.poolName + " has been sucessfully created");
-  });
-
 // You need to export an object to set up your config
 // Go to https://hardhat.org/config/ to learn more
 const config: HardhatUserConfig = {
@@ -198,107 +148,37 @@ const config: HardhatUserConfig = {
   networks: {
     hardhat: isFork(),
     development: {
-      url: "http://127.0.0.1:8545/",
-      chainId: 31337,
+      url: getRpcUrl("development"),
+      chainId: networks.development.chainId,
       live: false,
     },
-    bsctestnet: {
-      url: process.env.ARCHIVE_NODE_bsctestnet || "https://data-seed-prebsc-1-s1.binance.org:8545",
-      chainId: 97,
-      live: true,
-      gasPrice: 20000000000,
-      accounts: DEPLOYER_PRIVATE_KEY ? [`0x${DEPLOYER_PRIVATE_KEY}`] : [],
-    },
-    // Mainnet deployments are done through Frame wallet RPC
-    bscmainnet: {
-      url: process.env.ARCHIVE_NODE_bscmainnet || "https://bsc-dataseed.binance.org/",
-      chainId: 56,
-      live: true,
-      timeout: 1200000, // 20 minutes
-      accounts: DEPLOYER_PRIVATE_KEY ? [`0x${DEPLOYER_PRIVATE_KEY}`] : [],
-    },
-    ethereum: {
-      url: process.env.ARCHIVE_NODE_ethereum || "https://ethereum.blockpi.network/v1/rpc/public",
-      chainId: 1,
-      live: true,
-      timeout: 1200000, // 20 minutes
-    },
-    sepolia: {
-      url: process.env.ARCHIVE_NODE_sepolia || "https://ethereum-sepolia.blockpi.network/v1/rpc/public",
-      chainId: 11155111,
-      live: true,
-      accounts: DEPLOYER_PRIVATE_KEY ? [`0x${DEPLOYER_PRIVATE_KEY}`] : [],
-    },
-    opbnbtestnet: {
-      url: process.env.ARCHIVE_NODE_opbnbtestnet || "https://opbnb-testnet-rpc.bnbchain.org",
-      chainId: 5611,
-      live: true,
-      accounts: DEPLOYER_PRIVATE_KEY ? [`0x${DEPLOYER_PRIVATE_KEY}`] : [],
-    },
-    opbnbmainnet: {
-      url: process.env.ARCHIVE_NODE_opbnbmainnet || "https://opbnb-mainnet-rpc.bnbchain.org",
-      chainId: 204,
-      live: true,
-      accounts: DEPLOYER_PRIVATE_KEY ? [`0x${DEPLOYER_PRIVATE_KEY}`] : [],
-    },
-    artio: {
-      url: process.env.ARCHIVE_NODE_artio || "https://artio.rpc.berachain.com/",
-      chainId: 80085,
-      live: true,
-      accounts: DEPLOYER_PRIVATE_KEY ? [`0x${DEPLOYER_PRIVATE_KEY}`] : [],
-    },
-    mumbai: {
-      url: process.env.ARCHIVE_NODE_mumbai || "https://rpc-mumbai.maticvigil.com/",
-      chainId: 80001,
-      live: true,
-      accounts: DEPLOYER_PRIVATE_KEY ? [`0x${DEPLOYER_PRIVATE_KEY}`] : [],
-    },
+    ...Object.fromEntries(
+      liveNetworks.map(name => {
+        const { chainId, remoteAccounts, signer, gasPrice, timeout } = networks[name];
+        return [
+          name,
+          {
+            url: getRpcUrl(name),
+            chainId,
+            live: true,
+            ...(gasPrice && { gasPrice }),
+            ...(timeout && { timeout }),
+            // Accounts of networks without a signer are served by the RPC, e.g. Frame
+            ...(!remoteAccounts && { signer: signer || deployerSigner() }),
+          },
+        ];
+      }),
+    ),
   },
   gasReporter: {
     enabled: process.env.REPORT_GAS !== undefined,
     currency: "USD",
   },
   etherscan: {
-    customChains: [
-      {
-        network: "bsctestnet",
-        chainId: 97,
-        urls: {
-          apiURL: "https://api-testnet.bscscan.com/api",
-          browserURL: "https://testnet.bscscan.com",
-        },
-      },
-      {
-        network: "bscmainnet",
-        chainId: 56,
-        urls: {
-          apiURL: "https://api.bscscan.com/api",
-          browserURL: "https://bscscan.com",
-        },
-      },
-      {
-        network: "opbnbtestnet",
-        chainId: 5611,
-        urls: {
-          apiURL: `https://open-platform.nodereal.io/${process.env.ETHERSCAN_API_KEY}/op-bnb-testnet/contract/`,
-          browserURL: "https://testnet.opbnbscan.com/",
-        },
-      },
-      {
-        network: "opbnbmainnet",
-        chainId: 204,
-        urls: {
-          apiURL: `https://open-platform.nodereal.io/${process.env.ETHERSCAN_API_KEY}/op-bnb-mainnet/contract/`,
-          browserURL: "https://opbnbscan.com/",
-        },
-      },
-    ],
-    apiKey: {
-      bscmainnet: process.env.ETHERSCAN_API_KEY || "ETHERSCAN_API_KEY",
-      bsctestnet: process.env.ETHERSCAN_API_KEY || "ETHERSCAN_API_KEY",
-      opbnbtestnet: process.env.ETHERSCAN_API_KEY || "ETHERSCAN_API_KEY",
-      opbnbmainnet: process.env.ETHERSCAN_API_KEY || "ETHERSCAN_API_KEY",
-    },
+    customChains: explorers,
+    apiKey: Object.fromEntries(
+      explorers.map(({ network }) => [network, process.env.ETHERSCAN_API_KEY || "ETHERSCAN_API_KEY"]),
+    ),
   },
   paths: {
     tests: "./tests",
@@ -334,9 +214,7 @@ function isFork() {
         allowUnlimitedContractSize: false,
         loggingEnabled: false,
         forking: {
-          url:
-            process.env[`ARCHIVE_NODE_${process.env.FORKED_NETWORK}`] ||
-            "https://data-seed-prebsc-1-s1.binance.org:8545",
+          url: getRpcUrl(process.env.FORKED_NETWORK || "bsctestnet"),
           blockNumber: 26349263,
         },
         accounts: {
@@ -0,0 +1,336 @@
+import { ethers } from "hardhat";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { AccessControlManager } from "../typechain";
+import { loadContractSignatures } from "./contractSignatures";
+import { DeploymentConfig } from "./deploymentConfig";
+import {
+  getComptrollerName,
+  getRateModelName,
+  getRewardsDistributorName,
+  getVTokenName,
+  toAddress,
+} from "./deploymentUtils";
+import { VipCommand, cmd } from "./governance";
+
+// Permission of caller to call method on target, with the addresses resolved
+export type Permission = {
+  caller: string;
+  target: string;
+  method: string;
+};
+
+export type AccessControlAudit = {
+  // Permissions of the deployment config that are not granted
+  missing: Permission[];
+  // Permissions granted on the audited contracts that the deployment config does not define
+  extra: Permission[];
+  // Roles held by an account that could not be traced back to a method of the audited contracts
+  unknown: { role: string; account: string }[];
+};
+
+// Role of a permission, as traced back to the contract and method it was granted on
+export type RoleDictionary = Map<string, { target: string; method: string }>;
+
+export type AuditOptions = {
+  // First block scanned for role events, defaults to the block AccessControlManager was deployed at
+  fromBlock?: number;
+  // Number of blocks requested at once, RPCs cap the range of eth_getLogs
+  blockRange: number;
+};
+
+/**
+ * Role AccessControlManager stores a permission under. On live networks wildcard permissions (granted on the zero
+ * address) are keyed by a zero bytes32 rather than by the packed zero address
+ * @param mainnetBehavior whether the ACM is the one deployed on live networks
+ * @param targetContract address of the contract the method is called on
+ * @param method signature of the method, as passed to giveCallPermission
+ */
+export const makeRole = (mainnetBehavior: boolean, targetContract: string, method: string): string => {
+  if (mainnetBehavior && targetContract === ethers.constants.AddressZero) {
+    return ethers.utils.keccak256(
+      ethers.utils.solidityPack(["bytes32", "string"], [ethers.constants.HashZero, method]),
+    );
+  }
+  return ethers.utils.keccak256(ethers.utils.solidityPack(["address", "string"], [targetContract, method]));
+};
+
+// Contracts of this repo that check their permissions in AccessControlManager
+const ACCESS_CONTROLLED_CONTRACTS = [
+  "PoolRegistry",
+  "Shortfall",
+  "RiskFund",
+  "Comptroller",
+  "VToken",
+  "RewardsDistributor",
+  "BaseJumpRateModelV2",
+];
+
+const permissionKey = ({ caller, target, method }: Permission): string =>
+  `${caller.toLowerCase()}:${target.toLowerCase()}:${method}`;
+
+const getAccessControlManager = async (
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<AccessControlManager> => {
+  const address = await toAddress(config.preconfiguredAddresses.AccessControlManager || "AccessControlManager", hre);
+  return ethers.getContractAt<AccessControlManager>("AccessControlManager", address);
+};
+
+// Contracts of this repo that check their permissions in AccessControlManager, wildcard permissions included
+const getAuditedTargets = async (config: DeploymentConfig, hre: HardhatRuntimeEnvironment): Promise<string[]> => {
+  const names = new Set<string>(["PoolRegistry", "Shortfall", "RiskFund"]);
+  for (const pool of config.poolConfig) {
+    names.add(getComptrollerName(pool));
+    pool.vtokens.forEach(vTokenConfig => {
+      names.add(getVTokenName(vTokenConfig));
+      names.add(getRateModelName(vTokenConfig));
+    });
+    (pool.rewards || []).forEach(reward => names.add(getRewardsDistributorName(pool, reward)));
+  }
+  const targets = new Set<string>([ethers.constants.AddressZero]);
+  for (const name of names) {
+    const deployment = await hre.deployments.getOrNull(name);
+    if (deployment) {
+      targets.add(deployment.address);
+    }
+  }
+  for (const { target } of config.accessControlConfig) {
+    if (!target.startsWith("account:")) {
+      targets.add(await toAddress(target, hre));
+    }
+  }
+  return [...targets];
+};
+
+// Replays the role events, a role is held by the accounts it was granted to and not revoked from since.
+// The scan is narrowed to a role or an account when given
+const getRoleMembers = async (
+  accessControlManager: AccessControlManager,
+  options: AuditOptions,
+  hre: HardhatRuntimeEnvironment,
+  filter: { role?: string; account?: string } = {},
+): Promise<Map<string, Set<string>>> => {
+  const deployment = await hre.deployments.getOrNull("AccessControlManager");
+  const fromBlock = options.fromBlock ?? deployment?.receipt?.blockNumber ?? 0;
+  console.log(`Scanning the role events of AccessControlManager from block ${fromBlock}`);
+  const latestBlock = await ethers.provider.getBlockNumber();
+  const { filters } = accessControlManager;
+  const members = new Map<string, Set<string>>();
+  for (let start = fromBlock; start <= latestBlock; start += options.blockRange) {
+    const end = Math.min(start + options.blockRange - 1, latestBlock);
+    const [granted, revoked] = await Promise.all([
+      accessControlManager.queryFilter(filters.RoleGranted(filter.role, filter.account), start, end),
+      accessControlManager.queryFilter(filters.RoleRevoked(filter.role, filter.account), start, end),
+    ]);
+    const events = [...granted, ...revoked].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    for (const event of events) {
+      const { role, account } = event.args;
+      const accounts = members.get(role) || new Set<string>();
+      if (event.event === "RoleGranted") {
+        accounts.add(account.toLowerCase());
+      } else {
+        accounts.delete(account.toLowerCase());
+      }
+      members.set(role, accounts);
+    }
+  }
+  return members;
+};
+
+/**
+ * Collects the methods the contracts of this repo check in AccessControlManager. The shared AccessControlManager of
+ * live networks also holds the permissions of other Venus contracts, wildcard ones included, which are left alone
+ * @returns the signatures passed to the access checks
+ */
+export const getAccessControlledMethods = async (hre: HardhatRuntimeEnvironment): Promise<Set<string>> => {
+  const signatures = await loadContractSignatures(hre.artifacts);
+  if (!signatures) {
+    throw new Error("The contracts are not compiled, run npx hardhat compile to read their access checks");
+  }
+  const methods = new Set<string>();
+  for (const name of ACCESS_CONTROLLED_CONTRACTS) {
+    signatures.get(name)?.accessControl.forEach(method => methods.add(method));
+  }
+  return methods;
+};
+
+/**
+ * Traces roles back to the permissions they grant. Roles are hashes of a target and a method, so every pair of the
+ * audited targets and methods is hashed. Wildcard roles are hashed with both encodings, the ACM may be either version
+ * on any network
+ * @param targets addresses of the audited contracts, the zero address for the wildcard permissions
+ * @param methods signatures the roles are looked up for
+ * @returns the target and method of each role
+ */
+export const buildRoleDictionary = (targets: string[], methods: Set<string>): RoleDictionary => {
+  const roles: RoleDictionary = new Map();
+  for (const target of targets) {
+    for (const method of methods) {
+      roles.set(makeRole(false, target, method), { target, method });
+      roles.set(makeRole(true, target, method), { target, method });
+    }
+  }
+  return roles;
+};
+
+// Methods of the contracts of this repo and methods the config grants, on the contracts of the config
+const getRoleDictionary = async (config: DeploymentConfig, hre: HardhatRuntimeEnvironment): Promise<RoleDictionary> => {
+  const methods = await getAccessControlledMethods(hre);
+  config.accessControlConfig.forEach(({ method }) => methods.add(method));
+  return buildRoleDictionary(await getAuditedTargets(config, hre), methods);
+};
+
+const toPermissions = (
+  members: Map<string, Set<string>>,
+  roles: RoleDictionary,
+): { granted: Permission[]; unknown: { role: string; account: string }[] } => {
+  const granted: Permission[] = [];
+  const unknown: { role: string; account: string }[] = [];
+  for (const [role, accounts] of members) {
+    const permission = roles.get(role);
+    for (const account of accounts) {
+      if (permission) {
+        granted.push({ ...permission, caller: ethers.utils.getAddress(account) });
+      } else if (role !== ethers.constants.HashZero) {
+        unknown.push({ role, account: ethers.utils.getAddress(account) });
+      }
+    }
+  }
+  return { granted, unknown };
+};
+
+/**
+ * Rebuilds the permissions granted on the contracts of the deployment config from the role events of
+ * AccessControlManager and compares them with accessControlConfig
+ * @param config deployment config of the network hre is connected to
+ * @param options block range of the event scan
+ * @returns the missing and extra permissions
+ */
+export const auditAccessControl = async (
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+  options: AuditOptions,
+): Promise<AccessControlAudit> => {
+  const accessControlManager = await getAccessControlManager(config, hre);
+  const members = await getRoleMembers(accessControlManager, options, hre);
+  const { granted, unknown } = toPermissions(members, await getRoleDictionary(config, hre));
+
+  const expected: Permission[] = [];
+  for (const { caller, target, method } of config.accessControlConfig) {
+    expected.push({ caller: await toAddress(caller, hre), target: await toAddress(target, hre), method });
+  }
+  const grantedKeys = new Set(granted.map(permissionKey));
+  const expectedKeys = new Set(expected.map(permissionKey));
+  return {
+    missing: expected.filter(permission => !grantedKeys.has(permissionKey(permission))),
+    extra: granted.filter(permission => !expectedKeys.has(permissionKey(permission))),
+    unknown,
+  };
+};
+
+/**
+ * Lists the accounts allowed to call a method on a contract, either through the role of the contract or through the
+ * wildcard role granted on any contract
+ * @param target address of the contract
+ * @param method signature of the method, e.g. setCollateralFactor(address,uint256,uint256)
+ * @param options block range of the event scan
+ * @returns the callers with the role granting the permission
+ */
+export const getCallers = async (
+  target: string,
+  method: string,
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+  options: AuditOptions,
+): Promise<{ caller: string; through: string }[]> => {
+  const accessControlManager = await getAccessControlManager(config, hre);
+  const roles: [string, string][] = [
+    [makeRole(false, target, method), "contract role"],
+    [makeRole(false, ethers.constants.AddressZero, method), "any contract role"],
+    [makeRole(true, ethers.constants.AddressZero, method), "any contract role"],
+  ];
+  const callers: { caller: string; through: string }[] = [];
+  // The wildcard role of the zero address is the contract role of the zero address on local networks
+  const uniqueRoles = roles.filter(([role], idx) => roles.findIndex(([other]) => other === role) === idx);
+  for (const [role, through] of uniqueRoles) {
+    const members = await getRoleMembers(accessControlManager, options, hre, { role });
+    (members.get(role) || new Set<string>()).forEach(account =>
+      callers.push({ caller: ethers.utils.getAddress(account), through }),
+    );
+  }
+  return callers;
+};
+
+/**
+ * Lists what an account is allowed to call on the contracts of the deployment config
+ * @param account address of the caller
+ * @param options block range of the event scan
+ * @returns the permissions of the account and the roles it holds that could not be traced back to a method
+ */
+export const getPermissionsOf = async (
+  account: string,
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+  options: AuditOptions,
+): Promise<{ permissions: Permission[]; unknown: { role: string; account: string }[] }> => {
+  const accessControlManager = await getAccessControlManager(config, hre);
+  const members = await getRoleMembers(accessControlManager, options, hre, { account });
+  const { granted, unknown } = toPermissions(members, await getRoleDictionary(config, hre));
+  return { permissions: granted, unknown };
+};
+
+/**
+ * Resolves an address given by its preconfigured name (e.g. CriticalTimelock), deployment name or named account
+ * @param nameOrAddress address, name or account:<name>
+ */
+export const resolveAddress = async (
+  nameOrAddress: string,
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<string> => {
+  const preconfigured = config.preconfiguredAddresses[nameOrAddress];
+  return preconfigured || toAddress(nameOrAddress, hre);
+};
+
+/**
+ * Picks the permissions an audit may revoke. Wildcard permissions on methods the contracts of this repo do not check
+ * are used by other Venus contracts sharing the AccessControlManager, they are never revoked
+ * @param permissions permissions to revoke, usually the extra permissions of an audit
+ * @param accessControlledMethods methods checked by the contracts of this repo
+ * @returns the permissions to revoke and the wildcard permissions kept
+ */
+export const getRevocablePermissions = (
+  permissions: Permission[],
+  accessControlledMethods: Set<string>,
+): { revocable: Permission[]; kept: Permission[] } => {
+  const isKept = ({ target, method }: Permission) =>
+    target === ethers.constants.AddressZero && !accessControlledMethods.has(method);
+  return {
+    revocable: permissions.filter(permission => !isKept(permission)),
+    kept: permissions.filter(isKept),
+  };
+};
+
+/**
+ * Builds the commands revoking the permissions. Wildcard permissions on methods of other Venus contracts are skipped
+ * @param permissions permissions to revoke, usually the extra permissions of an audit
+ * @param config deployment config of the network hre is connected to
+ * @returns one revokeCallPermission command per revocable permission
+ */
+export const getRevokeCommands = async (
+  permissions: Permission[],
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<VipCommand[]> => {
+  const accessControlManager = await getAccessControlManager(config, hre);
+  const { revocable, kept } = getRevocablePermissions(permissions, await getAccessControlledMethods(hre));
+  kept.forEach(({ caller, method }) =>
+    console.log(
+      `Keeping the permission of ${caller} to call ${method} on any contract, it is not a method of this repo`,
+    ),
+  );
+  return revocable.map(({ caller, target, method }) =>
+    cmd(accessControlManager, "revokeCallPermission", [target, method, caller]),
+  );
+};
@@ -0,0 +1,292 @@
+import { JsonFragment } from "@ethersproject/abi";
+import { BigNumber, utils } from "ethers";
+import fs from "fs";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+
+import { formatKink, formatPercentage, formatTokenAmount } from "./configUnits";
+import { DeploymentConfig } from "./deploymentConfig";
+
+// A call to explain, as sent in a transaction or a proposal
+export type EncodedCall = {
+  target?: string;
+  data: string;
+  value?: string;
+};
+
+// Parameters holding a mantissa scaled by 1e18, printed as a percentage
+const MANTISSA_PARAM = /mantissa|factor|threshold|incentive/i;
+// Parameters holding an amount of the underlying of a market, or of the target token
+const AMOUNT_PARAM = /cap|amount|initialSupply|balance/i;
+// Parameters designating the market the amounts of a call refer to
+const MARKET_PARAM = /^(v[tT]okens?|markets?)_?$/;
+// Parameters designating the token the amounts of a call are expressed in, e.g. withdrawTreasuryToken(tokenAddress)
+const TOKEN_PARAM = /^_?(token|asset|underlying)(Address)?_?$/i;
+
+const TOKEN_ABI = [
+  "function underlying() view returns (address)",
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+];
+
+type TokenMetadata = { decimals: number; symbol: string };
+
+const readArtifactAbis = (dir: string): JsonFragment[][] => {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return readArtifactAbis(entryPath);
+    }
+    if (!entry.name.endsWith(".json") || entry.name.endsWith(".dbg.json")) {
+      return [];
+    }
+    const artifact = JSON.parse(fs.readFileSync(entryPath, "utf-8"));
+    return Array.isArray(artifact.abi) ? [artifact.abi] : [];
+  });
+};
+
+/**
+ * Collects the functions of every contract known to the project: the compiled contracts, the external artifacts of
+ * hardhat.config.ts (oracle, venus-protocol) and the deployments, which include the contracts of external packages
+ * @returns the functions keyed by selector
+ */
+export const getKnownFunctions = async (
+  hre: HardhatRuntimeEnvironment,
+): Promise<Map<string, utils.FunctionFragment>> => {
+  const functions = new Map<string, utils.FunctionFragment>();
+  const abis = Object.values(await hre.deployments.all()).map(deployment => deployment.abi);
+  for (const { artifacts } of hre.config.external?.contracts || []) {
+    for (const dir of Array.isArray(artifacts) ? artifacts : [artifacts]) {
+      abis.push(...readArtifactAbis(path.resolve(hre.config.paths.root, dir)));
+    }
+  }
+  for (const name of await hre.artifacts.getAllFullyQualifiedNames()) {
+    abis.push((await hre.artifacts.readArtifact(name)).abi);
+  }
+  for (const abi of abis) {
+    for (const fragment of Object.values(new utils.Interface(abi).functions)) {
+      functions.set(utils.Interface.getSighash(fragment), fragment);
+    }
+  }
+  return functions;
+};
+
+/**
+ * Names the known addresses of the network: deployments (external ones included), the exported addresses in
+ * deployments/<network>_addresses.json, preconfigured addresses and named accounts
+ * @returns labels keyed by lowercase address
+ */
+export const getAddressLabels = async (
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<Map<string, string>> => {
+  const labels = new Map<string, string>();
+  const exportPath = path.join(
+    hre.config.paths.root,
+    "deployments",
+    `${hre.deployments.getNetworkName()}_addresses.json`,
+  );
+  if (fs.existsSync(exportPath)) {
+    const { addresses } = JSON.parse(fs.readFileSync(exportPath, "utf-8"));
+    for (const [name, address] of Object.entries<string>(addresses)) {
+      labels.set(address.toLowerCase(), name);
+    }
+  }
+  for (const [name, deployment] of Object.entries(await hre.deployments.all())) {
+    labels.set(deployment.address.toLowerCase(), name);
+  }
+  for (const [name, address] of Object.entries(config.preconfiguredAddresses)) {
+    labels.set(address.toLowerCase(), name);
+  }
+  for (const [name, address] of Object.entries(await hre.getNamedAccounts())) {
+    labels.set(address.toLowerCase(), `account:${name}`);
+  }
+  labels.set(utils.hexZeroPad("0x", 20), "ANY_CONTRACT");
+  return labels;
+};
+
+// Formats values of a decoded call, token metadata is read from the chain and cached
+class CallExplainer {
+  private tokens = new Map<string, Promise<TokenMetadata | undefined>>();
+
+  constructor(
+    private readonly functions: Map<string, utils.FunctionFragment>,
+    private readonly labels: Map<string, string>,
+    private readonly hre: HardhatRuntimeEnvironment,
+  ) {}
+
+  public label(address: string): string {
+    const name = this.labels.get(address.toLowerCase());
+    return name ? `${address} (${name})` : address;
+  }
+
+  public async explain(call: EncodedCall, indent = ""): Promise<string[]> {
+    const target = call.target ? this.label(call.target) : "unknown target";
+    const value = call.value && !BigNumber.from(call.value).isZero() ? `, value ${call.value}` : "";
+    const fragment = this.functions.get(utils.hexDataSlice(call.data, 0, 4));
+    if (!fragment) {
+      return [`${indent}${target}: unknown function, calldata ${call.data}${value}`];
+    }
+    const args = utils.defaultAbiCoder.decode(fragment.inputs, utils.hexDataSlice(call.data, 4));
+    const lines = [`${indent}${target}.${fragment.format()}${value}`];
+    const token = this.getTokenContext(fragment.inputs, args, call.target);
+    for (const [idx, input] of fragment.inputs.entries()) {
+      const formatted = await this.formatValue(input, args[idx], token);
+      lines.push(`${indent}  ${input.name || `arg${idx}`}: ${formatted}`);
+    }
+    if (fragment.name === "propose" && Array.isArray(args.targets) && Array.isArray(args.calldatas)) {
+      lines.push(...(await this.explainProposal(args, `${indent}  `)));
+    }
+    return lines;
+  }
+
+  // Commands of a GovernorBravo proposal, the calldatas do not include the selectors of the signatures
+  private async explainProposal(args: utils.Result, indent: string): Promise<string[]> {
+    const lines: string[] = [];
+    for (const [idx, target] of args.targets.entries()) {
+      const signature: string = args.signatures[idx];
+      const data = signature
+        ? utils.hexConcat([utils.id(signature).slice(0, 10), args.calldatas[idx]])
+        : args.calldatas[idx];
+      // values is the second argument, args.values would be the method of the array
+      const value = args[1][idx].toString();
+      lines.push(`${indent}#${idx}`, ...(await this.explain({ target, data, value }, indent)));
+    }
+    return lines;
+  }
+
+  // Token the amounts of a call are expressed in: the underlying of the market passed to the call, the token passed
+  // to the call, or the target
+  private getTokenContext(
+    inputs: utils.ParamType[],
+    args: readonly unknown[],
+    target?: string,
+  ): (idx?: number) => Promise<TokenMetadata | undefined> {
+    const isAddress = (input: utils.ParamType) => input.type === "address" || input.type === "address[]";
+    const pick = (value: unknown, idx?: number) => {
+      const address = Array.isArray(value) ? value[idx ?? 0] : value;
+      return typeof address === "string" ? address : undefined;
+    };
+    const marketIdx = inputs.findIndex(input => MARKET_PARAM.test(input.name) && isAddress(input));
+    if (marketIdx !== -1) {
+      return (idx?: number) => this.getUnderlying(pick(args[marketIdx], idx));
+    }
+    const tokenIdx = inputs.findIndex(input => TOKEN_PARAM.test(input.name) && isAddress(input));
+    if (tokenIdx !== -1) {
+      return async (idx?: number) => {
+        const token = pick(args[tokenIdx], idx);
+        return token ? this.getToken(token) : undefined;
+      };
+    }
+    return async () => (target ? this.getToken(target) : undefined);
+  }
+
+  private async getUnderlying(vToken: string | undefined) {
+    if (!vToken) {
+      return undefined;
+    }
+    try {
+      const contract = await this.hre.ethers.getContractAt(TOKEN_ABI, vToken);
+      return await this.getToken(await contract.underlying());
+    } catch {
+      return undefined;
+    }
+  }
+
+  private getToken(address: string) {
+    const key = address.toLowerCase();
+    if (!this.tokens.has(key)) {
+      const read = async () => {
+        try {
+          const contract = await this.hre.ethers.getContractAt(TOKEN_ABI, address);
+          return { decimals: Number(await contract.decimals()), symbol: await contract.symbol() };
+        } catch {
+          return undefined;
+        }
+      };
+      this.tokens.set(key, read());
+    }
+    return this.tokens.get(key) as Promise<TokenMetadata | undefined>;
+  }
+
+  private async formatValue(
+    input: utils.ParamType,
+    value: unknown,
+    token: (idx?: number) => Promise<TokenMetadata | undefined>,
+    idx?: number,
+  ): Promise<string> {
+    if (input.baseType === "array" && Array.isArray(value)) {
+      // Elements are formatted with the name of the array, which carries the unit of the values
+      const element = utils.ParamType.fromObject({
+        name: input.name,
+        type: input.arrayChildren.type,
+        components: input.arrayChildren.components,
+      });
+      const elements = await Promise.all(
+        value.map((item: unknown, elementIdx) => this.formatValue(element, item, token, elementIdx)),
+      );
+      return `[${elements.join(", ")}]`;
+    }
+    if (input.baseType === "tuple" && Array.isArray(value)) {
+      const tupleToken = this.getTokenContext(input.components, value);
+      const hasToken = input.components.some(
+        component => MARKET_PARAM.test(component.name) || TOKEN_PARAM.test(component.name),
+      );
+      const fields = await Promise.all(
+        input.components.map(
+          async (component, componentIdx) =>
+            `${component.name || componentIdx}: ${await this.formatValue(
+              component,
+              value[componentIdx],
+              hasToken ? tupleToken : token,
+              idx,
+            )}`,
+        ),
+      );
+      return `{ ${fields.join(", ")} }`;
+    }
+    if (input.type === "address" && typeof value === "string") {
+      return this.label(value);
+    }
+    if (input.type.startsWith("uint") && BigNumber.isBigNumber(value)) {
+      if (MANTISSA_PARAM.test(input.name)) {
+        return `${value.toString()} (${formatPercentage(value.toString())})`;
+      }
+      if (/kink/i.test(input.name)) {
+        return `${value.toString()} (${formatKink(value.toString())})`;
+      }
+      if (AMOUNT_PARAM.test(input.name)) {
+        const metadata = await token(idx);
+        if (metadata) {
+          return `${value.toString()} (${formatTokenAmount(value.toString(), metadata)})`;
+        }
+      }
+      return value.toString();
+    }
+    return BigNumber.isBigNumber(value) ? value.toString() : JSON.stringify(value);
+  }
+}
+
+/**
+ * Explains calls in plain text: the function and the named arguments, with known addresses labelled, mantissas as
+ * percentages and amounts in units of their token. Proposals passed to GovernorBravo.propose are explained command
+ * by command
+ * @param calls calls to explain
+ * @param config deployment config of the network, for the preconfigured addresses
+ * @returns the lines of the explanation
+ */
+export const explainCalls = async (
+  calls: EncodedCall[],
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<string[]> => {
+  const explainer = new CallExplainer(await getKnownFunctions(hre), await getAddressLabels(config, hre), hre);
+  const lines: string[] = [];
+  for (const [idx, call] of calls.entries()) {
+    lines.push(...(calls.length > 1 ? [`#${idx}`] : []), ...(await explainer.explain(call)));
+  }
+  return lines;
+};
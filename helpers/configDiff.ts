@@ -0,0 +1,321 @@
+import { BigNumber, BigNumberish } from "ethers";
+import { ethers } from "hardhat";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  AccessControlManager,
+  Comptroller,
+  JumpRateModelV2,
+  PoolRegistry,
+  RewardsDistributor,
+  VToken,
+  WhitePaperInterestRateModel,
+} from "../typechain";
+import { formatAnnualRate, formatKink, formatPercentage, formatTokenAmount } from "./configUnits";
+import {
+  DeploymentConfig,
+  InterestRateModels,
+  PoolConfig,
+  RewardConfig,
+  TokenConfig,
+  VTokenConfig,
+  blocksPerYear,
+  getTokenAddress,
+  getTokenConfig,
+} from "./deploymentConfig";
+import {
+  getComptrollerName,
+  getRateModelName,
+  getRewardsDistributorName,
+  getVTokenName,
+  toAddress,
+} from "./deploymentUtils";
+
+export type ConfigDrift = {
+  contract: string;
+  field: string;
+  expected: string;
+  actual: string;
+};
+
+// Values are compared as mantissas and reported in the units of the data files, e.g. "75%" or "5500 ETH"
+type DriftCollector = (
+  field: string,
+  expected: BigNumberish | boolean,
+  actual: BigNumberish | boolean,
+  format?: (value: string) => string,
+) => void;
+
+const driftCollector = (contract: string, drifts: ConfigDrift[]): DriftCollector => {
+  return (field, expected, actual, format = value => value) => {
+    const [expectedStr, actualStr] = [expected.toString(), actual.toString()];
+    if (expectedStr.toLowerCase() !== actualStr.toLowerCase()) {
+      drifts.push({ contract, field, expected: format(expectedStr), actual: format(actualStr) });
+    }
+  };
+};
+
+const perBlock = (perYear: string, networkName: string): BigNumber => {
+  return BigNumber.from(perYear).div(blocksPerYear[networkName]);
+};
+
+// WhitePaperInterestRateModel has no kink, so the deployed model is told apart before reading JumpRate-only fields
+const getDeployedRateModel = async (rateModelAddress: string): Promise<InterestRateModels> => {
+  const jumpRateModel = await ethers.getContractAt<JumpRateModelV2>("JumpRateModelV2", rateModelAddress);
+  try {
+    await jumpRateModel.kink();
+    return InterestRateModels.JumpRate;
+  } catch {
+    return InterestRateModels.WhitePaper;
+  }
+};
+
+export const getRateModelDrifts = async (
+  rateModelAddress: string,
+  vTokenConfig: VTokenConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<ConfigDrift[]> => {
+  const drifts: ConfigDrift[] = [];
+  const { baseRatePerYear, multiplierPerYear, jumpMultiplierPerYear, kink_ } = vTokenConfig;
+  // Differs from hre.network.name when the deployments of a live network are used on a fork
+  const network = hre.deployments.getNetworkName();
+  const collect = driftCollector(`VToken_${vTokenConfig.symbol} rate model (${rateModelAddress})`, drifts);
+  // Rates per block are reported per year, as written in the data files
+  const toAnnualRate = (ratePerBlock: string) =>
+    formatAnnualRate(BigNumber.from(ratePerBlock).mul(blocksPerYear[network]).toString());
+  const expectedModel =
+    vTokenConfig.rateModel === InterestRateModels.JumpRate.toString()
+      ? InterestRateModels.JumpRate
+      : InterestRateModels.WhitePaper;
+  const deployedModel = await getDeployedRateModel(rateModelAddress);
+  collect("rateModel", InterestRateModels[expectedModel], InterestRateModels[deployedModel]);
+
+  // Both models share the base rate and the multiplier
+  const rateModel = await ethers.getContractAt<WhitePaperInterestRateModel>(
+    "WhitePaperInterestRateModel",
+    rateModelAddress,
+  );
+  collect("blocksPerYear", blocksPerYear[network], await rateModel.blocksPerYear());
+  collect("baseRatePerBlock", perBlock(baseRatePerYear, network), await rateModel.baseRatePerBlock(), toAnnualRate);
+  collect(
+    "multiplierPerBlock",
+    perBlock(multiplierPerYear, network),
+    await rateModel.multiplierPerBlock(),
+    toAnnualRate,
+  );
+  if (expectedModel === InterestRateModels.JumpRate && deployedModel === InterestRateModels.JumpRate) {
+    const jumpRateModel = await ethers.getContractAt<JumpRateModelV2>("JumpRateModelV2", rateModelAddress);
+    collect(
+      "jumpMultiplierPerBlock",
+      perBlock(jumpMultiplierPerYear, network),
+      await jumpRateModel.jumpMultiplierPerBlock(),
+      toAnnualRate,
+    );
+    collect("kink", kink_, await jumpRateModel.kink(), formatKink);
+  }
+  return drifts;
+};
+
+const getMarketDrifts = async (
+  comptroller: Comptroller,
+  vTokenConfig: VTokenConfig,
+  tokensConfig: TokenConfig[],
+  hre: HardhatRuntimeEnvironment,
+): Promise<ConfigDrift[]> => {
+  const contractName = getVTokenName(vTokenConfig);
+  const deployment = await hre.deployments.getOrNull(contractName);
+  if (!deployment) {
+    return [{ contract: contractName, field: "deployment", expected: "deployed", actual: "not deployed" }];
+  }
+
+  const drifts: ConfigDrift[] = [];
+  const vToken = await ethers.getContractAt<VToken>("VToken", deployment.address);
+  const market = await comptroller.markets(vToken.address);
+  const collect = driftCollector(contractName, drifts);
+  const underlying = getTokenConfig(vTokenConfig.asset, tokensConfig);
+  const toTokenAmount = (amount: string) => formatTokenAmount(amount, underlying);
+  collect("isListed", true, market.isListed);
+  collect("collateralFactor", vTokenConfig.collateralFactor, market.collateralFactorMantissa, formatPercentage);
+  collect(
+    "liquidationThreshold",
+    vTokenConfig.liquidationThreshold,
+    market.liquidationThresholdMantissa,
+    formatPercentage,
+  );
+  collect("supplyCap", vTokenConfig.supplyCap, await comptroller.supplyCaps(vToken.address), toTokenAmount);
+  collect("borrowCap", vTokenConfig.borrowCap, await comptroller.borrowCaps(vToken.address), toTokenAmount);
+  collect("reserveFactor", vTokenConfig.reserveFactor, await vToken.reserveFactorMantissa(), formatPercentage);
+  collect("reduceReservesBlockDelta", vTokenConfig.reduceReservesBlockDelta, await vToken.reduceReservesBlockDelta());
+
+  const rateModelAddress = await vToken.interestRateModel();
+  const expectedRateModel = await hre.deployments.getOrNull(getRateModelName(vTokenConfig));
+  if (expectedRateModel) {
+    collect("interestRateModel", expectedRateModel.address, rateModelAddress);
+  }
+  return [...drifts, ...(await getRateModelDrifts(rateModelAddress, vTokenConfig, hre))];
+};
+
+const getRewardDrifts = async (
+  pool: PoolConfig,
+  rewardConfig: RewardConfig,
+  tokensConfig: TokenConfig[],
+  hre: HardhatRuntimeEnvironment,
+): Promise<ConfigDrift[]> => {
+  const contractName = getRewardsDistributorName(pool, rewardConfig);
+  const deployment = await hre.deployments.getOrNull(contractName);
+  if (!deployment) {
+    return [{ contract: contractName, field: "deployment", expected: "deployed", actual: "not deployed" }];
+  }
+
+  const drifts: ConfigDrift[] = [];
+  const rewardsDistributor = await ethers.getContractAt<RewardsDistributor>("RewardsDistributor", deployment.address);
+  const collect = driftCollector(contractName, drifts);
+  const rewardToken = await getTokenAddress(getTokenConfig(rewardConfig.asset, tokensConfig), hre.deployments);
+  collect("rewardToken", rewardToken, await rewardsDistributor.rewardToken());
+  for (const [marketIdx, asset] of rewardConfig.markets.entries()) {
+    const vTokenConfig = pool.vtokens.find(vToken => vToken.asset === asset);
+    const vToken = vTokenConfig && (await hre.deployments.getOrNull(getVTokenName(vTokenConfig)));
+    if (!vToken) {
+      continue;
+    }
+    const supplySpeed = await rewardsDistributor.rewardTokenSupplySpeeds(vToken.address);
+    const borrowSpeed = await rewardsDistributor.rewardTokenBorrowSpeeds(vToken.address);
+    collect(`supplySpeed[${asset}]`, rewardConfig.supplySpeeds[marketIdx], supplySpeed);
+    collect(`borrowSpeed[${asset}]`, rewardConfig.borrowSpeeds[marketIdx], borrowSpeed);
+  }
+  return drifts;
+};
+
+const getPoolDrifts = async (
+  pool: PoolConfig,
+  tokensConfig: TokenConfig[],
+  hre: HardhatRuntimeEnvironment,
+): Promise<ConfigDrift[]> => {
+  const contractName = getComptrollerName(pool);
+  const deployment = await hre.deployments.getOrNull(contractName);
+  if (!deployment) {
+    return [{ contract: contractName, field: "deployment", expected: "deployed", actual: "not deployed" }];
+  }
+
+  const drifts: ConfigDrift[] = [];
+  const comptroller = await ethers.getContractAt<Comptroller>("Comptroller", deployment.address);
+  const collect = driftCollector(contractName, drifts);
+  collect("closeFactor", pool.closeFactor, await comptroller.closeFactorMantissa(), formatPercentage);
+  collect(
+    "liquidationIncentive",
+    pool.liquidationIncentive,
+    await comptroller.liquidationIncentiveMantissa(),
+    formatPercentage,
+  );
+  collect("minLiquidatableCollateral", pool.minLiquidatableCollateral, await comptroller.minLiquidatableCollateral());
+
+  for (const vTokenConfig of pool.vtokens) {
+    drifts.push(...(await getMarketDrifts(comptroller, vTokenConfig, tokensConfig, hre)));
+  }
+  for (const rewardConfig of pool.rewards || []) {
+    drifts.push(...(await getRewardDrifts(pool, rewardConfig, tokensConfig, hre)));
+  }
+  return drifts;
+};
+
+export const getPoolRegistrationDrifts = async (
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<ConfigDrift[]> => {
+  const drifts: ConfigDrift[] = [];
+  const poolRegistry = await ethers.getContract<PoolRegistry>("PoolRegistry");
+  for (const pool of config.poolConfig) {
+    const deployment = await hre.deployments.getOrNull(getComptrollerName(pool));
+    if (!deployment) {
+      // Reported by getConfigDrifts
+      continue;
+    }
+    const registeredPool = await poolRegistry.getPoolByComptroller(deployment.address);
+    if (registeredPool.comptroller.toLowerCase() !== deployment.address.toLowerCase()) {
+      drifts.push({
+        contract: "PoolRegistry",
+        field: `pool ${pool.name}`,
+        expected: deployment.address,
+        actual: registeredPool.comptroller,
+      });
+    }
+  }
+  return drifts;
+};
+
+export const getRewardsDistributorDrifts = async (
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<ConfigDrift[]> => {
+  const drifts: ConfigDrift[] = [];
+  for (const pool of config.poolConfig) {
+    const comptrollerDeployment = await hre.deployments.getOrNull(getComptrollerName(pool));
+    if (!comptrollerDeployment || !pool.rewards) {
+      continue;
+    }
+    const comptroller = await ethers.getContractAt<Comptroller>("Comptroller", comptrollerDeployment.address);
+    const attached = (await comptroller.getRewardDistributors()).map((address: string) => address.toLowerCase());
+    for (const rewardConfig of pool.rewards) {
+      const contractName = getRewardsDistributorName(pool, rewardConfig);
+      const deployment = await hre.deployments.getOrNull(contractName);
+      if (deployment && !attached.includes(deployment.address.toLowerCase())) {
+        drifts.push({
+          contract: getComptrollerName(pool),
+          field: "rewardDistributors",
+          expected: `includes ${contractName} (${deployment.address})`,
+          actual: "not attached",
+        });
+      }
+    }
+  }
+  return drifts;
+};
+
+export const getAccessControlDrifts = async (
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<ConfigDrift[]> => {
+  const drifts: ConfigDrift[] = [];
+  const { accessControlConfig, preconfiguredAddresses } = config;
+  const accessControlManager = await ethers.getContractAt<AccessControlManager>(
+    "AccessControlManager",
+    await toAddress(preconfiguredAddresses.AccessControlManager || "AccessControlManager", hre),
+  );
+  const isFork = hre.network.name !== hre.deployments.getNetworkName();
+  for (const { caller, target, method } of accessControlConfig) {
+    if (isFork && (caller.startsWith("account:") || target.startsWith("account:"))) {
+      // Named accounts resolve to local accounts on a fork, not to the ones used on the live network
+      console.log(`Skipping the permission check of ${caller} -> ${target}.${method}`);
+      continue;
+    }
+    const callerAddress = await toAddress(caller, hre);
+    const targetAddress = await toAddress(target, hre);
+    if (!(await accessControlManager.hasPermission(callerAddress, targetAddress, method))) {
+      drifts.push({
+        contract: "AccessControlManager",
+        field: `${target}.${method}`,
+        expected: `callable by ${caller}`,
+        actual: "not granted",
+      });
+    }
+  }
+  return drifts;
+};
+
+/**
+ * Compares the deployment config with the state of the deployed pools, markets, rate models and rewards distributors
+ * @param config deployment config of the network hre is connected to
+ * @param hre hardhat runtime environment
+ * @returns every field where the on-chain value differs from the configured one
+ */
+export const getConfigDrifts = async (
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<ConfigDrift[]> => {
+  const drifts: ConfigDrift[] = [];
+  // Pools are checked one by one to keep the number of concurrent RPC requests low
+  for (const pool of config.poolConfig) {
+    drifts.push(...(await getPoolDrifts(pool, config.tokensConfig, hre)));
+  }
+  return drifts;
+};
@@ -0,0 +1,166 @@
+import { parseUnitValue } from "./configUnits";
+import {
+  AccessControlEntry,
+  DeploymentConfig,
+  PoolConfig,
+  PreconfiguredAddresses,
+  TokenConfig,
+} from "./deploymentConfig";
+import { convertToUnit } from "./utils";
+
+// Permission sets that data files can grant with a single entry, e.g. { "preset": "normalTimelock", "caller": "..." }
+export type AccessControlPreset = {
+  preset: string;
+  caller: string;
+};
+
+// Shape of the per-network data files in helpers/config. Numbers can be written as unit strings ("0.75e18") or in
+// human units ("75%", "2% APR", "0.8 kink", "5500 ETH") and addresses as symbolic references
+// ("preconfiguredAddresses.VTreasury")
+export type NetworkConfigFile = {
+  tokensConfig: TokenConfig[];
+  poolConfig: PoolConfig[];
+  accessControlConfig: (AccessControlEntry | AccessControlPreset)[];
+};
+
+export type ConfigReferences = {
+  [namespace: string]: { [name: string]: string };
+};
+
+export type PermissionPresets = {
+  [preset: string]: (caller: string) => AccessControlEntry[];
+};
+
+export type ConfigLoaderContext = {
+  preconfiguredAddresses: PreconfiguredAddresses;
+  references: ConfigReferences;
+  permissionPresets: PermissionPresets;
+  // Tokens token amounts are expressed in, defaults to the tokensConfig of the data file
+  tokensConfig?: TokenConfig[];
+};
+
+type ResolveContext = {
+  references: ConfigReferences;
+  tokensConfig: TokenConfig[];
+};
+
+const UNIT_STRING = /^(\d+(?:\.\d+)?)e(\d+)$/;
+const REFERENCE = /^(\w+)\.(\w+)$/;
+
+// Fields holding amounts, rates and mantissas, the only ones that can be written in units. Names and symbols are kept
+// as they are, even when they look like an amount
+const NUMERIC_FIELDS = new Set([
+  "closeFactor",
+  "liquidationIncentive",
+  "minLiquidatableCollateral",
+  "baseRatePerYear",
+  "multiplierPerYear",
+  "jumpMultiplierPerYear",
+  "kink_",
+  "collateralFactor",
+  "liquidationThreshold",
+  "reserveFactor",
+  "initialSupply",
+  "supplyCap",
+  "borrowCap",
+  "reduceReservesBlockDelta",
+  "supplySpeeds",
+  "borrowSpeeds",
+  "speed",
+  "grant",
+]);
+
+const resolveString = (
+  value: string,
+  path: string,
+  numeric: boolean,
+  { references, tokensConfig }: ResolveContext,
+): string => {
+  if (numeric) {
+    const unit = value.match(UNIT_STRING);
+    if (unit) {
+      return convertToUnit(unit[1], Number(unit[2]));
+    }
+    const mantissa = parseUnitValue(value, path, tokensConfig);
+    if (mantissa !== undefined) {
+      return mantissa;
+    }
+  }
+  const reference = value.match(REFERENCE);
+  if (reference && reference[1] in references) {
+    const [, namespace, name] = reference;
+    const resolved = references[namespace][name];
+    if (resolved === undefined) {
+      throw new Error(`${path}: ${namespace} has no entry named ${name}`);
+    }
+    return resolved;
+  }
+  return value;
+};
+
+const resolveValue = <T>(value: T, path: string, numeric: boolean, context: ResolveContext): T => {
+  if (typeof value === "string") {
+    return resolveString(value, path, numeric, context) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((element, idx) => resolveValue(element, `${path}[${idx}]`, numeric, context)) as unknown as T;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value).map(([key, element]) => [
+      key,
+      resolveValue(element, path ? `${path}.${key}` : key, NUMERIC_FIELDS.has(key), context),
+    ]);
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+const isPreset = (entry: AccessControlEntry | AccessControlPreset): entry is AccessControlPreset => "preset" in entry;
+
+const expandAccessControl = (
+  entries: (AccessControlEntry | AccessControlPreset)[],
+  permissionPresets: PermissionPresets,
+): AccessControlEntry[] => {
+  return entries
+    .map((entry, idx: number) => {
+      if (!isPreset(entry)) {
+        return [entry];
+      }
+      const preset = permissionPresets[entry.preset];
+      if (!preset) {
+        throw new Error(`accessControlConfig[${idx}]: unknown permission preset ${entry.preset}`);
+      }
+      return preset(entry.caller);
+    })
+    .flat();
+};
+
+/**
+ * Builds the deployment config of a network from its data file
+ * @param file contents of the network data file
+ * @param context addresses, references and permission presets the data file can refer to
+ * @returns deployment config with every reference and unit string resolved
+ */
+export const loadNetworkConfig = (file: NetworkConfigFile, context: ConfigLoaderContext): DeploymentConfig => {
+  const { preconfiguredAddresses, references, permissionPresets } = context;
+  const allReferences = { ...references, preconfiguredAddresses };
+  const tokensConfig = context.tokensConfig || file.tokensConfig;
+  const resolved = resolveValue(file, "", false, { references: allReferences, tokensConfig });
+  return {
+    tokensConfig: resolved.tokensConfig,
+    poolConfig: resolved.poolConfig,
+    accessControlConfig: expandAccessControl(resolved.accessControlConfig, permissionPresets),
+    preconfiguredAddresses,
+  };
+};
+
+/**
+ * Resolves the unit strings and references of a fragment written like the data files, e.g. a market passed to a task
+ * @param value fragment to resolve
+ * @param context addresses and references the fragment can refer to
+ * @returns the fragment with every reference and unit string resolved
+ */
+export const resolveConfigValues = <T>(value: T, context: ConfigLoaderContext): T => {
+  const { preconfiguredAddresses, references, tokensConfig = [] } = context;
+  return resolveValue(value, "", false, { references: { ...references, preconfiguredAddresses }, tokensConfig });
+};
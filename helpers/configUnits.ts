@@ -0,0 +1,65 @@
+import { TokenConfig } from "./deploymentConfig";
+import { convertToUnit, scaleDownBy } from "./utils";
+
+// Mantissas are scaled by 1e18, a percentage by 1e16
+const MANTISSA_DECIMALS = 18;
+const PERCENTAGE_DECIMALS = 16;
+
+// "75%", or "2% APR" for the yearly rates of the interest rate models
+const PERCENTAGE = /^(\d+(?:\.\d+)?)%( APR)?$/;
+// "0.8 kink", the utilization rate at which the jump multiplier applies
+const KINK = /^(\d+(?:\.\d+)?) kink$/;
+// "5500 ETH", an amount of a token of tokensConfig
+const TOKEN_AMOUNT = /^(\d+(?:\.\d+)?) (\w+)$/;
+
+const findToken = (symbol: string, tokensConfig: TokenConfig[]): TokenConfig | undefined =>
+  tokensConfig.find(token => token.symbol.toLowerCase() === symbol.toLowerCase());
+
+const toMantissa = (amount: string, decimals: number, value: string, path: string): string => {
+  const mantissa = convertToUnit(amount, decimals);
+  if (mantissa.includes(".")) {
+    throw new Error(`${path}: ${value} has more than ${decimals} decimals`);
+  }
+  return mantissa;
+};
+
+/**
+ * Normalizes a value written in human units to its mantissa: "75%" and "2% APR" are scaled by 1e16, "0.8 kink" by
+ * 1e18 and "5500 ETH" by the decimals of the token in tokensConfig
+ * @param value value of the data file
+ * @param path path of the value in the data file, for the error messages
+ * @param tokensConfig tokens the amounts can be expressed in
+ * @returns the mantissa, or undefined when the value is not written in human units
+ */
+export const parseUnitValue = (value: string, path: string, tokensConfig: TokenConfig[]): string | undefined => {
+  const percentage = value.match(PERCENTAGE);
+  if (percentage) {
+    return toMantissa(percentage[1], PERCENTAGE_DECIMALS, value, path);
+  }
+  const kink = value.match(KINK);
+  if (kink) {
+    return toMantissa(kink[1], MANTISSA_DECIMALS, value, path);
+  }
+  const tokenAmount = value.match(TOKEN_AMOUNT);
+  if (tokenAmount) {
+    const [, amount, symbol] = tokenAmount;
+    const token = findToken(symbol, tokensConfig);
+    if (!token) {
+      throw new Error(`${path}: ${symbol} is not a token of tokensConfig`);
+    }
+    if (token.decimals === undefined) {
+      throw new Error(`${path}: the decimals of ${symbol} are not configured`);
+    }
+    return toMantissa(amount, token.decimals, value, path);
+  }
+  return undefined;
+};
+
+export const formatPercentage = (mantissa: string): string => `${scaleDownBy(mantissa, PERCENTAGE_DECIMALS)}%`;
+
+export const formatAnnualRate = (mantissa: string): string => `${formatPercentage(mantissa)} APR`;
+
+export const formatKink = (mantissa: string): string => `${scaleDownBy(mantissa, MANTISSA_DECIMALS)} kink`;
+
+export const formatTokenAmount = (amount: string, token: Pick<TokenConfig, "symbol" | "decimals">): string =>
+  token.decimals === undefined ? amount : `${scaleDownBy(amount, token.decimals)} ${token.symbol}`;
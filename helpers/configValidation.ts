@@ -0,0 +1,446 @@
+import { BigNumber, constants, utils } from "ethers";
+
+import { ContractSignatures } from "./contractSignatures";
+import {
+  AccessControlEntry,
+  DeploymentConfig,
+  InterestRateModels,
+  PoolConfig,
+  RewardConfig,
+  TokenConfig,
+  VTokenConfig,
+} from "./deploymentConfig";
+
+export type ConfigIssue = {
+  path: string;
+  message: string;
+};
+
+type Validator = (value: unknown, path: string, issues: ConfigIssue[]) => void;
+
+const MANTISSA_ONE = utils.parseUnits("1", 18);
+
+const join = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const string = (): Validator => (value, path, issues) => {
+  if (typeof value !== "string" || value.trim() === "") {
+    issues.push({ path, message: `expected a non-empty string, got ${JSON.stringify(value)}` });
+  }
+};
+
+const boolean = (): Validator => (value, path, issues) => {
+  if (typeof value !== "boolean") {
+    issues.push({ path, message: `expected a boolean, got ${JSON.stringify(value)}` });
+  }
+};
+
+const integer = (): Validator => (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    issues.push({ path, message: `expected a non-negative integer, got ${JSON.stringify(value)}` });
+  }
+};
+
+// Unsigned integers are passed around as decimal strings to avoid losing precision
+const uint = (): Validator => (value, path, issues) => {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    issues.push({ path, message: `expected an unsigned integer string, got ${JSON.stringify(value)}` });
+  }
+};
+
+const mantissa = (): Validator => (value, path, issues) => {
+  const before = issues.length;
+  uint()(value, path, issues);
+  if (issues.length === before && BigNumber.from(value).gt(MANTISSA_ONE)) {
+    issues.push({ path, message: `expected a mantissa not greater than 1e18, got ${value}` });
+  }
+};
+
+const address = (): Validator => (value, path, issues) => {
+  if (typeof value !== "string" || !utils.isAddress(value)) {
+    issues.push({ path, message: `expected an address, got ${JSON.stringify(value)}` });
+  }
+};
+
+// Accepts anything toAddress() can resolve: an address, a named account or a deployment name
+const addressOrAlias = (): Validator => (value, path, issues) => {
+  if (typeof value !== "string") {
+    issues.push({ path, message: `expected an address or an alias, got ${JSON.stringify(value)}` });
+    return;
+  }
+  if (value.startsWith("0x")) {
+    address()(value, path, issues);
+  } else if (!/^(account:)?[A-Za-z][\w]*$/.test(value)) {
+    issues.push({ path, message: `expected an address, "account:<name>" or a deployment name, got "${value}"` });
+  }
+};
+
+const oneOf =
+  (allowed: string[]): Validator =>
+  (value, path, issues) => {
+    if (typeof value !== "string" || !allowed.includes(value)) {
+      issues.push({ path, message: `expected one of ${allowed.join(", ")}, got ${JSON.stringify(value)}` });
+    }
+  };
+
+// Resolved lazily, deploymentConfig imports this module to validate its own exports
+const interestRateModel = (): Validator => (value, path, issues) => {
+  const models = [InterestRateModels.WhitePaper, InterestRateModels.JumpRate].map(model => model.toString());
+  oneOf(models)(value, path, issues);
+};
+
+const optional =
+  (validator: Validator): Validator =>
+  (value, path, issues) => {
+    if (value !== undefined) {
+      validator(value, path, issues);
+    }
+  };
+
+const array =
+  (item: Validator): Validator =>
+  (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected an array, got ${JSON.stringify(value)}` });
+      return;
+    }
+    value.forEach((element, idx) => item(element, `${path}[${idx}]`, issues));
+  };
+
+const record =
+  (item: Validator): Validator =>
+  (value, path, issues) => {
+    if (!isObject(value)) {
+      issues.push({ path, message: `expected an object, got ${JSON.stringify(value)}` });
+      return;
+    }
+    Object.entries(value).forEach(([key, element]) => item(element, join(path, key), issues));
+  };
+
+const object =
+  (shape: { [key: string]: Validator }): Validator =>
+  (value, path, issues) => {
+    if (!isObject(value)) {
+      issues.push({ path, message: `expected an object, got ${JSON.stringify(value)}` });
+      return;
+    }
+    for (const [key, validator] of Object.entries(shape)) {
+      validator(value[key], join(path, key), issues);
+    }
+    for (const key of Object.keys(value)) {
+      if (!(key in shape)) {
+        issues.push({ path: join(path, key), message: "unknown field" });
+      }
+    }
+  };
+
+const tokenConfigSchema = object({
+  isMock: boolean(),
+  name: optional(string()),
+  symbol: string(),
+  decimals: optional(integer()),
+  tokenAddress: address(),
+  faucetInitialLiquidity: optional(boolean()),
+});
+
+const vTokenConfigSchema = object({
+  name: string(),
+  symbol: string(),
+  asset: string(),
+  rateModel: interestRateModel(),
+  baseRatePerYear: uint(),
+  multiplierPerYear: uint(),
+  jumpMultiplierPerYear: uint(),
+  kink_: mantissa(),
+  collateralFactor: mantissa(),
+  liquidationThreshold: mantissa(),
+  reserveFactor: mantissa(),
+  initialSupply: uint(),
+  supplyCap: uint(),
+  borrowCap: uint(),
+  vTokenReceiver: addressOrAlias(),
+  reduceReservesBlockDelta: uint(),
+});
+
+const campaignBoundary = (): Validator => (value, path, issues) => {
+  if (isObject(value) && "block" in value) {
+    object({ block: integer() })(value, path, issues);
+  } else if (isObject(value) && "timestamp" in value) {
+    object({ timestamp: integer() })(value, path, issues);
+  } else {
+    issues.push({
+      path,
+      message: `expected { "block": <number> } or { "timestamp": <seconds> }, got ${JSON.stringify(value)}`,
+    });
+  }
+};
+
+const rewardConfigSchema = object({
+  id: string(),
+  asset: string(),
+  markets: array(string()),
+  supplySpeeds: array(uint()),
+  borrowSpeeds: array(uint()),
+  start: optional(campaignBoundary()),
+  end: optional(campaignBoundary()),
+  contributors: optional(
+    array(
+      object({
+        address: addressOrAlias(),
+        speed: uint(),
+        grant: optional(uint()),
+      }),
+    ),
+  ),
+});
+
+const poolConfigSchema = object({
+  id: string(),
+  name: string(),
+  closeFactor: mantissa(),
+  liquidationIncentive: uint(),
+  minLiquidatableCollateral: uint(),
+  vtokens: array(vTokenConfigSchema),
+  rewards: optional(array(rewardConfigSchema)),
+});
+
+const accessControlEntrySchema = object({
+  caller: addressOrAlias(),
+  target: addressOrAlias(),
+  method: (value, path, issues) => {
+    if (typeof value !== "string" || !/^\w+\(.*\)$/.test(value)) {
+      issues.push({
+        path,
+        message: `expected a method signature like "name(type1,type2)", got ${JSON.stringify(value)}`,
+      });
+    }
+  },
+});
+
+const deploymentConfigSchema = object({
+  tokensConfig: array(tokenConfigSchema),
+  poolConfig: array(poolConfigSchema),
+  accessControlConfig: array(accessControlEntrySchema),
+  preconfiguredAddresses: record(addressOrAlias()),
+});
+
+const findDuplicates = (values: string[]): string[] => {
+  return values.filter((value, idx) => values.indexOf(value) !== idx);
+};
+
+const hasToken = (symbol: string, tokensConfig: TokenConfig[]): boolean => {
+  const normalized = symbol.toLocaleLowerCase().trim();
+  return tokensConfig.some(token => token.symbol.toLocaleLowerCase().trim() === normalized);
+};
+
+const checkTokens = (tokensConfig: TokenConfig[], issues: ConfigIssue[]) => {
+  for (const symbol of findDuplicates(tokensConfig.map(token => token.symbol))) {
+    issues.push({ path: "tokensConfig", message: `token ${symbol} is defined more than once` });
+  }
+  tokensConfig.forEach((token: TokenConfig, idx: number) => {
+    if (!token.isMock && token.tokenAddress === constants.AddressZero) {
+      issues.push({
+        path: `tokensConfig[${idx}].tokenAddress`,
+        message: `non-mock token ${token.symbol} has no address`,
+      });
+    }
+  });
+};
+
+const checkVToken = (vToken: VTokenConfig, path: string, tokensConfig: TokenConfig[], issues: ConfigIssue[]) => {
+  if (!hasToken(vToken.asset, tokensConfig)) {
+    issues.push({ path: `${path}.asset`, message: `token ${vToken.asset} is not defined in tokensConfig` });
+  }
+  if (BigNumber.from(vToken.collateralFactor).gt(vToken.liquidationThreshold)) {
+    issues.push({
+      path: `${path}.collateralFactor`,
+      message: `collateral factor ${vToken.collateralFactor} exceeds liquidation threshold ${vToken.liquidationThreshold}`,
+    });
+  }
+};
+
+// Ends given as blocks can only be checked against the chain head, they are skipped when it is not known
+const checkCampaign = ({ start, end }: RewardConfig, path: string, issues: ConfigIssue[], currentBlock?: number) => {
+  if (end && "timestamp" in end && end.timestamp * 1000 <= Date.now()) {
+    issues.push({ path: `${path}.end`, message: `campaign ended at ${new Date(end.timestamp * 1000).toISOString()}` });
+  }
+  if (end && "block" in end && currentBlock !== undefined && end.block <= currentBlock) {
+    issues.push({
+      path: `${path}.end`,
+      message: `campaign ended at block ${end.block}, the network is at block ${currentBlock}`,
+    });
+  }
+  if (!start || !end) {
+    return;
+  }
+  const startValue = "block" in start ? start.block : start.timestamp;
+  const endValue = "block" in end ? end.block : end.timestamp;
+  if ("block" in start === "block" in end && startValue >= endValue) {
+    issues.push({ path: `${path}.end`, message: "campaign ends before it starts" });
+  }
+};
+
+const checkReward = (
+  reward: RewardConfig,
+  path: string,
+  pool: PoolConfig,
+  tokensConfig: TokenConfig[],
+  issues: ConfigIssue[],
+  currentBlock?: number,
+) => {
+  if (!hasToken(reward.asset, tokensConfig)) {
+    issues.push({ path: `${path}.asset`, message: `token ${reward.asset} is not defined in tokensConfig` });
+  }
+  const { markets, supplySpeeds, borrowSpeeds } = reward;
+  if (markets.length !== supplySpeeds.length || markets.length !== borrowSpeeds.length) {
+    issues.push({
+      path,
+      message:
+        `markets, supplySpeeds and borrowSpeeds should have the same length, ` +
+        `got ${markets.length}, ${supplySpeeds.length} and ${borrowSpeeds.length}`,
+    });
+  }
+  markets.forEach((market: string, idx: number) => {
+    if (!pool.vtokens.some(vToken => vToken.asset === market)) {
+      issues.push({ path: `${path}.markets[${idx}]`, message: `pool ${pool.id} has no market for ${market}` });
+    }
+  });
+  checkCampaign(reward, path, issues, currentBlock);
+  for (const contributor of findDuplicates((reward.contributors || []).map(({ address }) => address.toLowerCase()))) {
+    issues.push({ path: `${path}.contributors`, message: `contributor ${contributor} is defined more than once` });
+  }
+};
+
+const checkPools = (
+  poolConfig: PoolConfig[],
+  tokensConfig: TokenConfig[],
+  issues: ConfigIssue[],
+  currentBlock?: number,
+) => {
+  for (const id of findDuplicates(poolConfig.map(pool => pool.id))) {
+    issues.push({ path: "poolConfig", message: `pool ${id} is defined more than once` });
+  }
+  const vTokenSymbols = poolConfig.flatMap(pool => pool.vtokens.map(vToken => vToken.symbol));
+  for (const symbol of findDuplicates(vTokenSymbols)) {
+    issues.push({ path: "poolConfig", message: `market ${symbol} is defined more than once` });
+  }
+  poolConfig.forEach((pool: PoolConfig, poolIdx: number) => {
+    const poolPath = `poolConfig[${poolIdx}]`;
+    for (const asset of findDuplicates(pool.vtokens.map(vToken => vToken.asset))) {
+      issues.push({ path: `${poolPath}.vtokens`, message: `pool ${pool.id} lists ${asset} more than once` });
+    }
+    pool.vtokens.forEach((vToken: VTokenConfig, idx: number) =>
+      checkVToken(vToken, `${poolPath}.vtokens[${idx}]`, tokensConfig, issues),
+    );
+    for (const id of findDuplicates((pool.rewards || []).map(reward => reward.id))) {
+      issues.push({ path: `${poolPath}.rewards`, message: `pool ${pool.id} defines reward ${id} more than once` });
+    }
+    (pool.rewards || []).forEach((reward: RewardConfig, idx: number) =>
+      checkReward(reward, `${poolPath}.rewards[${idx}]`, pool, tokensConfig, issues, currentBlock),
+    );
+  });
+};
+
+// Deployments are named after their contract, optionally followed by a suffix, e.g. Comptroller_DeFi
+const getTargetSignatures = (
+  target: string,
+  signatures: Map<string, ContractSignatures>,
+): ContractSignatures | undefined => {
+  if (target === constants.AddressZero) {
+    // Granted on any contract, the method only has to exist on one of them
+    const all: ContractSignatures = { abi: new Set(), accessControl: new Set() };
+    for (const { abi, accessControl } of signatures.values()) {
+      abi.forEach(signature => all.abi.add(signature));
+      accessControl.forEach(signature => all.accessControl.add(signature));
+    }
+    return all;
+  }
+  if (utils.isAddress(target) || target.startsWith("account:")) {
+    // Contracts of other repos have no build info here
+    return undefined;
+  }
+  return signatures.get(target) || signatures.get(target.split("_")[0]);
+};
+
+const checkAccessControlMethod = (
+  { target, method }: AccessControlEntry,
+  path: string,
+  signatures: Map<string, ContractSignatures>,
+  issues: ConfigIssue[],
+) => {
+  const targetSignatures = getTargetSignatures(target, signatures);
+  if (!targetSignatures || targetSignatures.accessControl.has(method) || targetSignatures.abi.has(method)) {
+    return;
+  }
+  const name = method.split("(")[0].trim();
+  // The access checks use the string literals of the sources, they take precedence over the ABI signatures
+  const candidates = [...targetSignatures.accessControl, ...targetSignatures.abi].filter(
+    signature => signature.split("(")[0] === name,
+  );
+  const on = target === constants.AddressZero ? "any compiled contract" : target;
+  issues.push({
+    path,
+    message: candidates.length
+      ? `method ${method} is not defined on ${on}, did you mean ${candidates[0]}?`
+      : `method ${method} is not defined on ${on}, no function is named ${name}`,
+  });
+};
+
+const checkAccessControl = (
+  accessControlConfig: AccessControlEntry[],
+  issues: ConfigIssue[],
+  signatures?: Map<string, ContractSignatures>,
+) => {
+  const keys = accessControlConfig.map(({ caller, target, method }) => `${caller} -> ${target}.${method}`);
+  for (const key of findDuplicates(keys)) {
+    issues.push({ path: "accessControlConfig", message: `permission ${key} is granted more than once` });
+  }
+  if (signatures) {
+    accessControlConfig.forEach((entry: AccessControlEntry, idx: number) =>
+      checkAccessControlMethod(entry, `accessControlConfig[${idx}].method`, signatures, issues),
+    );
+  }
+};
+
+/**
+ * Checks the shape of a deployment config and the relations between its fields
+ * @param config deployment config to validate
+ * @param signatures methods of the compiled contracts, permissions are checked against them when given
+ * @param currentBlock head of the network the config is validated for, campaigns ending at a block are checked
+ * against it when given
+ * @returns the list of issues found, each one with the path of the offending field
+ */
+export const validateDeploymentConfig = (
+  config: DeploymentConfig,
+  signatures?: Map<string, ContractSignatures>,
+  currentBlock?: number,
+): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+  deploymentConfigSchema(config, "", issues);
+  if (issues.length > 0) {
+    // Relations between fields can only be checked on a well-formed config
+    return issues;
+  }
+  checkTokens(config.tokensConfig, issues);
+  checkPools(config.poolConfig, config.tokensConfig, issues, currentBlock);
+  checkAccessControl(config.accessControlConfig, issues, signatures);
+  return issues;
+};
+
+export const formatConfigIssues = (issues: ConfigIssue[]): string => {
+  return issues.map(({ path, message }) => `  - ${path}: ${message}`).join("\n");
+};
+
+export const assertValidDeploymentConfig = (
+  networkName: string,
+  config: DeploymentConfig,
+  signatures?: Map<string, ContractSignatures>,
+  currentBlock?: number,
+) => {
+  const issues = validateDeploymentConfig(config, signatures, currentBlock);
+  if (issues.length > 0) {
+    throw new Error(`Invalid deployment config for network ${networkName}:\n${formatConfigIssues(issues)}`);
+  }
+};
@@ -0,0 +1,54 @@
+import { JsonFragment } from "@ethersproject/abi";
+import { utils } from "ethers";
+import fs from "fs";
+import { Artifacts } from "hardhat/types";
+
+// Methods a contract can be granted in AccessControlManager
+export type ContractSignatures = {
+  // Canonical signatures of the functions in the ABI
+  abi: Set<string>;
+  // String literals passed to the access checks in the sources, e.g. "addMarket(AddMarketInput)"
+  accessControl: Set<string>;
+};
+
+type BuildInfo = {
+  input: { sources: { [sourceName: string]: { content: string } } };
+  output: { contracts?: { [sourceName: string]: { [contractName: string]: { abi: JsonFragment[] } } } };
+};
+
+const SIGNATURE_LITERAL = /"(\w+\([\w[\],]*\))"/g;
+
+let cachedSignatures: Promise<Map<string, ContractSignatures> | undefined> | undefined;
+
+const readSignatures = async (artifacts: Artifacts): Promise<Map<string, ContractSignatures> | undefined> => {
+  const buildInfoPaths = await artifacts.getBuildInfoPaths();
+  if (buildInfoPaths.length === 0) {
+    return undefined;
+  }
+  const signatures = new Map<string, ContractSignatures>();
+  for (const buildInfoPath of buildInfoPaths) {
+    const buildInfo: BuildInfo = JSON.parse(fs.readFileSync(buildInfoPath, "utf-8"));
+    for (const [sourceName, contracts] of Object.entries(buildInfo.output.contracts || {})) {
+      const content = buildInfo.input.sources[sourceName]?.content || "";
+      const literals = [...content.matchAll(SIGNATURE_LITERAL)].map(match => match[1]);
+      for (const [contractName, { abi }] of Object.entries(contracts)) {
+        const entry = signatures.get(contractName) || { abi: new Set<string>(), accessControl: new Set<string>() };
+        Object.keys(new utils.Interface(abi).functions).forEach(signature => entry.abi.add(signature));
+        literals.forEach(literal => entry.accessControl.add(literal));
+        signatures.set(contractName, entry);
+      }
+    }
+  }
+  return signatures;
+};
+
+/**
+ * Collects the methods of every compiled contract from the build info of the last compilation
+ * @returns the signatures keyed by contract name, or undefined if the contracts were not compiled
+ */
+export const loadContractSignatures = (artifacts: Artifacts): Promise<Map<string, ContractSignatures> | undefined> => {
+  if (!cachedSignatures) {
+    cachedSignatures = readSignatures(artifacts);
+  }
+  return cachedSignatures;
+};
@@ -0,0 +1,257 @@
+import { providers, utils } from "ethers";
+import { EventEmitter } from "events";
+import { DeployOptions, DeployResult } from "hardhat-deploy/types";
+import { ProviderWrapper } from "hardhat/plugins";
+import {
+  EIP1193Provider,
+  EthereumProvider,
+  HardhatRuntimeEnvironment,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  RequestArguments,
+} from "hardhat/types";
+
+import { getKnownFunctions } from "./calldataDecoder";
+import { toJsonValues } from "./governance";
+
+export type PlannedDeployment = {
+  kind: "deployment";
+  name: string;
+  contract: string;
+  args: unknown[];
+  proxy?: string;
+  initializer?: string;
+  address: string;
+};
+
+export type PlannedTransaction = {
+  kind: "transaction";
+  from: string;
+  to: string;
+  data: string;
+  value: string;
+};
+
+// Deployments and transactions in the order the deploy scripts made them
+export type DeploymentPlan = {
+  network: string;
+  forkRpc: string;
+  steps: (PlannedDeployment | PlannedTransaction)[];
+};
+
+type TransactionRequest = { from: string; to?: string; data?: string; value?: string };
+
+// Serves the requests from a node forking the planned network, e.g. `npx hardhat node --fork <rpc>` or anvil
+class ForkNodeProvider extends EventEmitter implements EIP1193Provider {
+  private readonly rpc: providers.JsonRpcProvider;
+
+  constructor(url: string) {
+    super();
+    this.rpc = new providers.JsonRpcProvider(url);
+  }
+
+  public request({ method, params }: RequestArguments): Promise<unknown> {
+    return this.rpc.send(method, Array.isArray(params) ? params : []);
+  }
+}
+
+// Serves the named accounts and the chain id of the planned network and records every transaction sent to the fork
+class PlanRecordingProvider extends ProviderWrapper implements EthereumProvider {
+  constructor(
+    provider: EIP1193Provider,
+    private readonly accounts: string[],
+    private readonly chainId: number,
+    private readonly plan: DeploymentPlan,
+  ) {
+    super(provider);
+  }
+
+  public async request(args: RequestArguments): Promise<unknown> {
+    if (args.method === "eth_accounts" || args.method === "eth_requestAccounts") {
+      return this.accounts;
+    }
+    // Fork nodes usually run with a chain id of their own
+    if (args.method === "eth_chainId") {
+      return utils.hexValue(this.chainId);
+    }
+    if (args.method === "net_version") {
+      return this.chainId.toString();
+    }
+    if (args.method === "eth_sendTransaction") {
+      const [tx] = this._getParams<TransactionRequest[]>(args);
+      if (tx.to) {
+        this.plan.steps.push({
+          kind: "transaction",
+          from: utils.getAddress(tx.from),
+          to: utils.getAddress(tx.to),
+          data: tx.data || "0x",
+          value: tx.value || "0x0",
+        });
+      }
+    }
+    return this._wrappedProvider.request(args);
+  }
+
+  public send(method: string, params?: unknown[]): Promise<unknown> {
+    return this.request({ method, params });
+  }
+
+  public sendAsync(payload: JsonRpcRequest, callback: (error: unknown, response: JsonRpcResponse) => void) {
+    this.request({ method: payload.method, params: payload.params }).then(
+      result => callback(null, { jsonrpc: "2.0", id: payload.id, result }),
+      error => callback(error, { jsonrpc: "2.0", id: payload.id, error: { code: -32603, message: error.message } }),
+    );
+  }
+}
+
+const formatCall = (method: string, args: readonly unknown[]): string => {
+  return `${method}(${toJsonValues(args)
+    .map((arg: unknown) => JSON.stringify(arg))
+    .join(", ")})`;
+};
+
+const describeProxy = (options: DeployOptions): { proxy?: string; initializer?: string } => {
+  const { proxy } = options;
+  if (!proxy) {
+    return {};
+  }
+  if (proxy === true || typeof proxy === "string") {
+    return { proxy: "EIP173Proxy", initializer: typeof proxy === "string" ? proxy : undefined };
+  }
+  const proxyContract = typeof proxy.proxyContract === "string" ? proxy.proxyContract : "custom proxy";
+  if ("methodName" in proxy && proxy.methodName) {
+    return { proxy: proxyContract, initializer: `${proxy.methodName}()` };
+  }
+  const execute = "execute" in proxy && proxy.execute && ("init" in proxy.execute ? proxy.execute.init : proxy.execute);
+  return {
+    proxy: proxy.proxyContract ? proxyContract : "EIP173Proxy",
+    initializer: execute ? formatCall(execute.methodName, execute.args) : undefined,
+  };
+};
+
+const trackDeployments = (hre: HardhatRuntimeEnvironment, plan: DeploymentPlan): (() => void) => {
+  const deploy = hre.deployments.deploy;
+  hre.deployments.deploy = async (name: string, options: DeployOptions): Promise<DeployResult> => {
+    const result = await deploy(name, options);
+    if (result.newlyDeployed) {
+      plan.steps.push({
+        kind: "deployment",
+        name,
+        contract: typeof options.contract === "string" ? options.contract : name,
+        args: options.args || [],
+        ...describeProxy(options),
+        address: result.address,
+      });
+    }
+    return result;
+  };
+  return () => {
+    hre.deployments.deploy = deploy;
+  };
+};
+
+// hre.ethers and hardhat-deploy keep the provider they were first used with, so the provider of the network is
+// redirected in place rather than replaced
+const redirectProvider = (provider: EthereumProvider, target: EthereumProvider): (() => void) => {
+  const { request, send, sendAsync } = provider;
+  provider.request = args => target.request(args);
+  provider.send = (method, params) => target.send(method, params);
+  provider.sendAsync = (payload, callback) => target.sendAsync(payload, callback);
+  return () => {
+    Object.assign(provider, { request, send, sendAsync });
+  };
+};
+
+/**
+ * Redirects the network of hre to a node forking it, so that the deploy scripts run against the live state without
+ * broadcasting anything. Deployments are kept in memory and every deployment and transaction is recorded
+ * @param forkRpc url of the fork node, e.g. started with `npx hardhat node --fork <rpc>`
+ * @returns the plan, filled in while the deploy scripts run, and stop, which points hre back to the live network
+ */
+export const startDeploymentPlan = async (
+  hre: HardhatRuntimeEnvironment,
+  forkRpc: string,
+): Promise<{ plan: DeploymentPlan; stop: () => void }> => {
+  const { network } = hre;
+  // Named accounts are resolved against the live network before the provider is redirected
+  const namedAccounts = await hre.getNamedAccounts();
+  const accounts = [...new Set(Object.values(namedAccounts).filter(Boolean))];
+  if (!namedAccounts.deployer) {
+    throw new Error(`The deployer account is not available on ${network.name}, the plan cannot be built`);
+  }
+  const chainId = Number(await hre.getChainId());
+
+  const fork = new ForkNodeProvider(forkRpc);
+  const poolRegistry = await hre.deployments.getOrNull("PoolRegistry");
+  if (
+    poolRegistry &&
+    (await fork.request({ method: "eth_getCode", params: [poolRegistry.address, "latest"] })) === "0x"
+  ) {
+    throw new Error(`${forkRpc} does not fork ${network.name}, PoolRegistry has no code at ${poolRegistry.address}`);
+  }
+  for (const account of accounts) {
+    await fork.request({ method: "hardhat_impersonateAccount", params: [account] });
+    await fork.request({ method: "hardhat_setBalance", params: [account, utils.hexValue(utils.parseEther("1000"))] });
+  }
+
+  const plan: DeploymentPlan = { network: network.name, forkRpc, steps: [] };
+  const { saveDeployments } = network;
+  const restoreProvider = redirectProvider(network.provider, new PlanRecordingProvider(fork, accounts, chainId, plan));
+  const restoreDeploy = trackDeployments(hre, plan);
+  network.saveDeployments = false;
+  const stop = () => {
+    restoreProvider();
+    restoreDeploy();
+    network.saveDeployments = saveDeployments;
+  };
+  return { plan, stop };
+};
+
+const decodeCall = (data: string, functions: Map<string, utils.FunctionFragment>): string => {
+  const fragment = functions.get(utils.hexDataSlice(data, 0, 4));
+  if (!fragment) {
+    return data;
+  }
+  const args = utils.defaultAbiCoder.decode(fragment.inputs, utils.hexDataSlice(data, 4));
+  return formatCall(fragment.name, args);
+};
+
+/**
+ * Prints the recorded deployments and transactions, in the order the deploy scripts made them
+ * @param plan plan returned by startDeploymentPlan, after the deploy scripts ran
+ */
+export const printDeploymentPlan = async (plan: DeploymentPlan, hre: HardhatRuntimeEnvironment) => {
+  const functions = await getKnownFunctions(hre);
+  const names = new Map<string, string>();
+  for (const [name, deployment] of Object.entries(await hre.deployments.all())) {
+    names.set(deployment.address.toLowerCase(), name);
+  }
+  for (const [name, address] of Object.entries(await hre.getNamedAccounts())) {
+    names.set(address.toLowerCase(), `account:${name}`);
+  }
+  const label = (address: string) => `${address} (${names.get(address.toLowerCase()) || "unknown"})`;
+
+  console.log(`\nDeployment plan for ${plan.network}, run on ${plan.forkRpc} and nothing was broadcast`);
+  if (plan.steps.length === 0) {
+    console.log("Nothing to deploy or send");
+  }
+  for (const step of plan.steps) {
+    if (step.kind === "deployment") {
+      const args = step.args.map(arg =>
+        typeof arg === "string" && utils.isHexString(arg) && arg.length > 42 ? decodeCall(arg, functions) : arg,
+      );
+      console.log(`  deploy ${step.name} as ${step.contract}`);
+      console.log(`    constructor args: ${JSON.stringify(toJsonValues(args))}`);
+      if (step.proxy) {
+        console.log(`    proxy: ${step.proxy}`);
+      }
+      if (step.initializer) {
+        console.log(`    initializer: ${step.initializer}`);
+      }
+      continue;
+    }
+    const value = utils.formatEther(step.value);
+    console.log(`  send from ${label(step.from)} to ${label(step.to)}${value === "0.0" ? "" : `, value ${value}`}`);
+    console.log(`    ${decodeCall(step.data, functions)}`);
+  }
+};
@@ -1,8 +1,263 @@
+import { BigNumber, BigNumberish } from "ethers";
+import { parseUnits } from "ethers/lib/utils";
 import { ethers } from "hardhat";
+import { DeployResult } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
 import { Comptroller, ERC20, MockToken } from "../typechain";
-import { PoolConfig, RewardConfig, TokenConfig, VTokenConfig, getTokenConfig } from "./deploymentConfig";
+import {
+  DeploymentConfig,
+  InterestRateModels,
+  PoolConfig,
+  RewardConfig,
+  TokenConfig,
+  VTokenConfig,
+  blocksPerYear,
+  getTokenAddress,
+  getTokenConfig,
+} from "./deploymentConfig";
+import { ProposalType, VipCommand, buildProposal, buildSafeBatch, writeProposal, writeSafeBatch } from "./governance";
+import { isMultisig } from "./networks";
+import { AddressOne } from "./utils";
+
+const mantissaToBps = (num: BigNumberish) => {
+  return BigNumber.from(num).div(parseUnits("1", 14)).toString();
+};
+
+// Rate models are shared between markets, so the deployment name is derived from the model parameters
+export const getRateModelName = (vTokenConfig: VTokenConfig): string => {
+  const { rateModel, baseRatePerYear, multiplierPerYear, jumpMultiplierPerYear, kink_ } = vTokenConfig;
+  if (rateModel === InterestRateModels.JumpRate.toString()) {
+    const [b, m, j, k] = [baseRatePerYear, multiplierPerYear, jumpMultiplierPerYear, kink_].map(mantissaToBps);
+    return `JumpRateModelV2_base${b}bps_slope${m}bps_jump${j}bps_kink${k}bps`;
+  }
+  const [b, m] = [baseRatePerYear, multiplierPerYear].map(mantissaToBps);
+  return `WhitePaperInterestRateModel_base${b}bps_slope${m}bps`;
+};
+
+// Comptrollers are deployed as Comptroller_<pool id>, the name of the pool is only shown to users
+export const getComptrollerName = (pool: Pick<PoolConfig, "id">): string => `Comptroller_${pool.id}`;
+
+// Markets are deployed as VToken_<symbol>, the name of the market is only shown to users
+export const getVTokenName = (vTokenConfig: Pick<VTokenConfig, "symbol">): string => `VToken_${vTokenConfig.symbol}`;
+
+// Rewards distributors are named after the id of their reward, so that reordering the rewards of a pool keeps them
+export const getRewardsDistributorName = (pool: Pick<PoolConfig, "id">, reward: Pick<RewardConfig, "id">): string =>
+  `RewardsDistributor_${pool.id}_${reward.id}`;
+
+// Deploys the rate model of a market, or reuses the existing one if a market with the same parameters was deployed before
+export const deployRateModel = async (
+  vTokenConfig: VTokenConfig,
+  accessControlManagerAddress: string,
+  hre: HardhatRuntimeEnvironment,
+): Promise<string> => {
+  const { deployments, getNamedAccounts } = hre;
+  const { deployer } = await getNamedAccounts();
+  const { rateModel, baseRatePerYear, multiplierPerYear, jumpMultiplierPerYear, kink_ } = vTokenConfig;
+  const BLOCKS_PER_YEAR: number = blocksPerYear[hre.network.name];
+  const rateModelName = getRateModelName(vTokenConfig);
+  console.log(`Deploying interest rate model ${rateModelName}`);
+  if (rateModel === InterestRateModels.JumpRate.toString()) {
+    const result: DeployResult = await deployments.deploy(rateModelName, {
+      from: deployer,
+      contract: "JumpRateModelV2",
+      args: [
+        BLOCKS_PER_YEAR,
+        baseRatePerYear,
+        multiplierPerYear,
+        jumpMultiplierPerYear,
+        kink_,
+        accessControlManagerAddress,
+      ],
+      log: true,
+      autoMine: true,
+    });
+    return result.address;
+  }
+  const result: DeployResult = await deployments.deploy(rateModelName, {
+    from: deployer,
+    contract: "WhitePaperInterestRateModel",
+    args: [BLOCKS_PER_YEAR, baseRatePerYear, multiplierPerYear],
+    log: true,
+    autoMine: true,
+  });
+  return result.address;
+};
+
+/**
+ * Deploys the VToken_<symbol> beacon proxy of a market on VTokenBeacon, or reuses the existing one
+ * @param vTokenConfig market to deploy
+ * @param comptrollerAddress comptroller of the pool the market is added to
+ * @param deploymentConfig deployment config of the network, for the treasury and the timelock
+ * @returns address of the VToken proxy
+ */
+export const deployVToken = async (
+  vTokenConfig: VTokenConfig,
+  comptrollerAddress: string,
+  deploymentConfig: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<string> => {
+  const { deployments, getNamedAccounts } = hre;
+  const { deployer } = await getNamedAccounts();
+  const { tokensConfig, preconfiguredAddresses } = deploymentConfig;
+  const { name, asset, symbol, reserveFactor } = vTokenConfig;
+
+  const accessControlManagerAddress = await toAddress(
+    preconfiguredAddresses.AccessControlManager || "AccessControlManager",
+    hre,
+  );
+  const vTokenBeacon = await deployments.get("VTokenBeacon");
+  const tokenContract = await getUnderlyingToken(getTokenConfig(asset, tokensConfig).symbol, tokensConfig);
+  const rateModelAddress = await deployRateModel(vTokenConfig, accessControlManagerAddress, hre);
+
+  console.log(`Deploying VToken proxy for ${symbol}`);
+  const VToken = await ethers.getContractFactory("VToken");
+  const underlyingDecimals = Number(await tokenContract.decimals());
+  const vTokenDecimals = 8;
+  const treasuryAddress = await toAddress(preconfiguredAddresses.VTreasury || "VTreasury", hre);
+  const args = [
+    tokenContract.address,
+    comptrollerAddress,
+    rateModelAddress,
+    parseUnits("1", underlyingDecimals + 18 - vTokenDecimals),
+    name,
+    symbol,
+    vTokenDecimals,
+    preconfiguredAddresses.NormalTimelock || deployer, // admin
+    accessControlManagerAddress,
+    [AddressOne, treasuryAddress],
+    reserveFactor,
+  ];
+  const result: DeployResult = await deployments.deploy(getVTokenName(vTokenConfig), {
+    from: deployer,
+    contract: "BeaconProxy",
+    args: [vTokenBeacon.address, VToken.interface.encodeFunctionData("initialize", args)],
+    log: true,
+    autoMine: true,
+  });
+  return result.address;
+};
+
+/**
+ * Deploys the Comptroller_<id> beacon proxy of a pool on ComptrollerBeacon, or reuses the existing one
+ * @param pool pool to deploy the comptroller of
+ * @param deploymentConfig deployment config of the network, for the access control manager
+ * @returns address of the Comptroller proxy
+ */
+export const deployComptroller = async (
+  pool: PoolConfig,
+  deploymentConfig: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<string> => {
+  const { deployments, getNamedAccounts } = hre;
+  const { deployer } = await getNamedAccounts();
+  const { preconfiguredAddresses } = deploymentConfig;
+  const accessControlManagerAddress = await toAddress(
+    preconfiguredAddresses.AccessControlManager || "AccessControlManager",
+    hre,
+  );
+  const maxLoopsLimit = 100;
+  const comptrollerBeacon = await deployments.get("ComptrollerBeacon");
+
+  console.log(`Deploying a proxy for Comptroller of the pool ${pool.name}`);
+  const Comptroller = await ethers.getContractFactory("Comptroller");
+  const result: DeployResult = await deployments.deploy(getComptrollerName(pool), {
+    from: deployer,
+    contract: "BeaconProxy",
+    args: [
+      comptrollerBeacon.address,
+      Comptroller.interface.encodeFunctionData("initialize", [maxLoopsLimit, accessControlManagerAddress]),
+    ],
+    log: true,
+    autoMine: true,
+  });
+  return result.address;
+};
+
+/**
+ * Deploys the RewardsDistributor_<pool id>_<reward id> transparent proxies of the rewards of a pool, existing ones are
+ * reused. RewardsDistributorImpl and the pool comptroller must be deployed
+ * @param pool pool whose rewards are deployed
+ * @param deploymentConfig deployment config of the network
+ * @returns addresses of the RewardsDistributor proxies, in the order of the rewards
+ */
+export const deployRewardsDistributors = async (
+  pool: PoolConfig,
+  deploymentConfig: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<string[]> => {
+  const { deployments, getNamedAccounts } = hre;
+  const { deployer } = await getNamedAccounts();
+  const { tokensConfig, preconfiguredAddresses } = deploymentConfig;
+  const maxLoopsLimit = 100;
+
+  const accessControlAddress = await toAddress(
+    preconfiguredAddresses.AccessControlManager || "AccessControlManager",
+    hre,
+  );
+  const proxyOwnerAddress = await toAddress(preconfiguredAddresses.NormalTimelock || "account:deployer", hre);
+  const comptrollerProxy = await deployments.get(getComptrollerName(pool));
+
+  const addresses: string[] = [];
+  for (const reward of pool.rewards || []) {
+    // Get reward token address
+    const tokenConfig = getTokenConfig(reward.asset, tokensConfig);
+    const rewardTokenAddress = await getTokenAddress(tokenConfig, deployments);
+    // Custom contract name so we can obtain the proxy after that easily
+    const contractName = getRewardsDistributorName(pool, reward);
+    const result: DeployResult = await deployments.deploy(contractName, {
+      from: deployer,
+      contract: "RewardsDistributor",
+      proxy: {
+        implementationName: `RewardsDistributorImpl`,
+        owner: proxyOwnerAddress,
+        proxyContract: "OpenZeppelinTransparentProxy",
+        execute: {
+          methodName: "initialize",
+          args: [comptrollerProxy.address, rewardTokenAddress, maxLoopsLimit, accessControlAddress],
+        },
+        upgradeIndex: 0,
+      },
+      autoMine: true,
+      log: true,
+      skipIfAlreadyDeployed: true,
+    });
+    addresses.push(result.address);
+  }
+  return addresses;
+};
+
+/**
+ * Starts the two-step ownership transfer of the contracts, the new owner has to accept it.
+ * Contracts already owned by or pending to the target owner are skipped
+ * @param contractNames deployment names of Ownable2Step contracts
+ * @param targetOwner new owner
+ */
+export const transfer2StepOwnerships = async (contractNames: string[], targetOwner: string) => {
+  const abi = [
+    "function owner() view returns (address)",
+    "function pendingOwner() view returns (address)",
+    "function transferOwnership(address newOwner)",
+  ];
+  for (const contractName of contractNames) {
+    const contractAddress = (await ethers.getContract(contractName)).address;
+    const contract = await ethers.getContractAt(abi, contractAddress);
+    const owner = await contract.owner();
+    const pendingOwner = await contract.pendingOwner();
+
+    let tx;
+    if (owner !== targetOwner && pendingOwner !== targetOwner) {
+      tx = await contract.transferOwnership(targetOwner);
+      await tx.wait(1);
+      const pendingOwner = await contract.pendingOwner();
+      console.log(
+        `${contractName} owner ${owner} sucessfully changed to ${pendingOwner}. Please accept the ownership.`,
+      );
+    } else {
+      console.error(`${contractName} owner ${owner} is equal to target ownership address ${targetOwner}`);
+    }
+  }
+};
 
 export const toAddress = async (addressOrAlias: string, hre: HardhatRuntimeEnvironment): Promise<string> => {
   const { getNamedAccounts } = hre;
@@ -40,7 +295,7 @@ export const getUnregisteredPools = async (
   const registeredPools = (await registry.getAllPools()).map((p: { comptroller: string }) => p.comptroller);
   const isRegistered = await Promise.all(
     poolConfig.map(async pool => {
-      const comptroller = await deployments.getOrNull(`Comptroller_${pool.name}`);
+      const comptroller = await deployments.getOrNull(getComptrollerName(pool));
       if (!comptroller) {
         // If the Comptroller deployment doesn't exist, it's not registered
         return false;
@@ -75,7 +330,7 @@ export const getUnregisteredVTokens = async (
     poolConfig.map(async (pool: PoolConfig) => {
       const isRegistered = await Promise.all(
         pool.vtokens.map(async (vTokenConfig: VTokenConfig) => {
-          const vToken = await deployments.getOrNull(`VToken_${vTokenConfig.name}`);
+          const vToken = await deployments.getOrNull(getVTokenName(vTokenConfig));
           if (!vToken) {
             // If the VToken deployment doesn't exist, it's not registered
             return false;
@@ -114,7 +369,7 @@ export const getUnregisteredRewardsDistributors = async (
       const rewards = pool.rewards || [];
       const isRegistered = await Promise.all(
         rewards.map(async (reward: RewardConfig) => {
-          const rewardsDistributor = await deployments.getOrNull(`RewardsDistributor_${reward.asset}_${pool.name}`);
+          const rewardsDistributor = await deployments.getOrNull(getRewardsDistributorName(pool, reward));
           if (!rewardsDistributor) {
             // If the RewardsDistributor deployment doesn't exist, it's not registered
             return false;
@@ -126,3 +381,127 @@ export const getUnregisteredRewardsDistributors = async (
     }),
   );
 };
+
+// Timelocks from the fastest to the slowest, a command is routed to the first one allowed to call it
+const TIMELOCKS: [ProposalType, string][] = [
+  [ProposalType.CRITICAL, "CriticalTimelock"],
+  [ProposalType.FASTTRACK, "FastTrackTimelock"],
+  [ProposalType.NORMAL, "NormalTimelock"],
+];
+
+/**
+ * Name of the timelock proposals of a type are queued in, as preconfigured in the deployment config
+ * @param proposalType proposal type of GovernorBravo
+ */
+export const getTimelockName = (proposalType: ProposalType): string => {
+  const timelock = TIMELOCKS.find(([type]) => type === proposalType);
+  if (!timelock) {
+    throw new Error(`Unknown proposal type ${proposalType}`);
+  }
+  return timelock[1];
+};
+
+// A command tagged with the timelock it is proposed through
+export type RoutedVipCommand = VipCommand & { proposalType: ProposalType };
+
+/**
+ * Builds the function picking the fastest timelock the access control config allows to call a command. Commands
+ * that are not access controlled, e.g. ownership transfers, go through NormalTimelock
+ * @param deploymentConfig deployment config of the network, with the timelocks and the permissions
+ * @returns the router, returning the proposal type of a command
+ */
+export const getTimelockRouter = async (
+  deploymentConfig: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<(command: VipCommand) => ProposalType> => {
+  const { accessControlConfig, preconfiguredAddresses } = deploymentConfig;
+  const permissions = await Promise.all(
+    accessControlConfig.map(async ({ caller, target, method }) => ({
+      caller: (await toAddress(caller, hre)).toLowerCase(),
+      target: (await toAddress(target, hre)).toLowerCase(),
+      method,
+    })),
+  );
+  const normalTimelock = preconfiguredAddresses.NormalTimelock?.toLowerCase();
+  return (command: VipCommand) => {
+    const target = command.target.toLowerCase();
+    for (const [proposalType, name] of TIMELOCKS) {
+      const timelock = preconfiguredAddresses[name]?.toLowerCase();
+      const allowed = permissions.some(
+        permission =>
+          permission.caller === timelock &&
+          permission.method === command.signature &&
+          (permission.target === target || permission.target === ethers.constants.AddressZero),
+      );
+      if (allowed) {
+        // Networks where one multisig stands for every timelock only have normal proposals
+        return timelock === normalTimelock ? ProposalType.NORMAL : proposalType;
+      }
+    }
+    return ProposalType.NORMAL;
+  };
+};
+
+/**
+ * Writes the artifact governance needs to execute the commands: a Safe transaction batch when the timelock of the
+ * network is a multisig, a GovernorBravo proposal otherwise
+ * @param commands commands in execution order
+ * @param name name of the proposal or batch, also used as the default file name
+ * @param description description of the proposal
+ * @param proposalType timelock the proposal is queued in, fast-track and critical proposal files get a suffix
+ */
+export const writeVipArtifacts = async (
+  commands: VipCommand[],
+  name: string,
+  description: string,
+  deploymentConfig: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+  proposalType: ProposalType = ProposalType.NORMAL,
+) => {
+  const { NormalTimelock, GovernorBravo } = deploymentConfig.preconfiguredAddresses;
+  const networkName = hre.network.name;
+  if (NormalTimelock && isMultisig(NormalTimelock)) {
+    const chainId = Number(await hre.getChainId());
+    const batch = buildSafeBatch(commands, NormalTimelock, chainId, name);
+    writeSafeBatch(batch, process.env.VIP_PROPOSAL_FILE || `proposals/${networkName}/${name}-safe-batch.json`);
+    return;
+  }
+  if (!GovernorBravo) {
+    console.log(`GovernorBravo is not configured for ${networkName}, skipping the proposal file`);
+    return;
+  }
+  const suffix = proposalType === ProposalType.NORMAL ? "" : `-${ProposalType[proposalType].toLowerCase()}`;
+  const filePath = process.env.VIP_PROPOSAL_FILE
+    ? process.env.VIP_PROPOSAL_FILE.replace(/(\.json)?$/, `${suffix}.json`)
+    : `proposals/${networkName}/${name}${suffix}.json`;
+  const proposal = buildProposal(commands, GovernorBravo, description, proposalType);
+  writeProposal(proposal, filePath);
+};
+
+/**
+ * Writes one proposal per timelock the commands are routed to, in the order of the commands. On networks where the
+ * timelocks are a multisig a single batch is written
+ * @param commands commands in execution order, tagged with their timelock
+ * @param name name of the normal proposal, the others get a -fasttrack or -critical suffix
+ * @param description description of the proposals
+ */
+export const writeRoutedVipArtifacts = async (
+  commands: RoutedVipCommand[],
+  name: string,
+  description: string,
+  deploymentConfig: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+) => {
+  for (const [proposalType] of [...TIMELOCKS].reverse()) {
+    const group = commands
+      .filter(command => command.proposalType === proposalType)
+      .map(({ target, signature, params, value }) => ({ target, signature, params, value }));
+    if (group.length === 0) {
+      continue;
+    }
+    const label = ProposalType[proposalType];
+    console.log(`Writing the ${label} proposal with ${group.length} command(s)`);
+    const groupDescription = proposalType === ProposalType.NORMAL ? description : `${description} (${label})`;
+    await writeVipArtifacts(group, name, groupDescription, deploymentConfig, hre, proposalType);
+  }
+};
@@ -0,0 +1,130 @@
+import { ethers } from "hardhat";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { VToken } from "../typechain";
+import { ConfigDrift, getAccessControlDrifts, getPoolRegistrationDrifts } from "./configDiff";
+import { DeploymentConfig } from "./deploymentConfig";
+import { getComptrollerName, getRateModelName, getRewardsDistributorName, getVTokenName } from "./deploymentUtils";
+
+export type VerificationResult = {
+  check: string;
+  failures: ConfigDrift[];
+};
+
+const BEACONS = [
+  { beacon: "ComptrollerBeacon", implementation: "ComptrollerImpl" },
+  { beacon: "VTokenBeacon", implementation: "VTokenImpl" },
+];
+
+const notDeployed = (contract: string): ConfigDrift => {
+  return { contract, field: "deployment", expected: "deployed", actual: "not deployed" };
+};
+
+const sameAddress = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+const getBeaconFailures = async (hre: HardhatRuntimeEnvironment): Promise<ConfigDrift[]> => {
+  const failures: ConfigDrift[] = [];
+  const abi = ["function implementation() view returns (address)"];
+  for (const { beacon, implementation } of BEACONS) {
+    const beaconDeployment = await hre.deployments.getOrNull(beacon);
+    const implementationDeployment = await hre.deployments.getOrNull(implementation);
+    if (!beaconDeployment || !implementationDeployment) {
+      failures.push(notDeployed(beaconDeployment ? implementation : beacon));
+      continue;
+    }
+    const actual = await (await ethers.getContractAt(abi, beaconDeployment.address)).implementation();
+    if (!sameAddress(actual, implementationDeployment.address)) {
+      failures.push({ contract: beacon, field: "implementation", expected: implementationDeployment.address, actual });
+    }
+  }
+  return failures;
+};
+
+const getVTokenFailures = async (config: DeploymentConfig, hre: HardhatRuntimeEnvironment): Promise<ConfigDrift[]> => {
+  const failures: ConfigDrift[] = [];
+  const shortfall = await hre.deployments.getOrNull("Shortfall");
+  const protocolShareReserve = await hre.deployments.getOrNull("ProtocolShareReserve");
+  for (const pool of config.poolConfig) {
+    const comptroller = await hre.deployments.getOrNull(getComptrollerName(pool));
+    for (const vTokenConfig of pool.vtokens) {
+      const contractName = getVTokenName(vTokenConfig);
+      const deployment = await hre.deployments.getOrNull(contractName);
+      if (!deployment) {
+        failures.push(notDeployed(contractName));
+        continue;
+      }
+      const vToken = await ethers.getContractAt<VToken>("VToken", deployment.address);
+      const rateModel = await hre.deployments.getOrNull(getRateModelName(vTokenConfig));
+      const expectations: [string, string | undefined, string][] = [
+        ["comptroller", comptroller?.address, await vToken.comptroller()],
+        ["interestRateModel", rateModel?.address, await vToken.interestRateModel()],
+        ["shortfall", shortfall?.address, await vToken.shortfall()],
+        ["protocolShareReserve", protocolShareReserve?.address, await vToken.protocolShareReserve()],
+      ];
+      for (const [field, expected, actual] of expectations) {
+        if (!expected || !sameAddress(expected, actual)) {
+          failures.push({ contract: contractName, field, expected: expected || "not deployed", actual });
+        }
+      }
+    }
+  }
+  return failures;
+};
+
+const getOwnershipFailures = async (
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<ConfigDrift[]> => {
+  const failures: ConfigDrift[] = [];
+  const { deployer } = await hre.getNamedAccounts();
+  const owner = config.preconfiguredAddresses.NormalTimelock || deployer;
+  const contractNames = [
+    "PoolRegistry",
+    "RiskFund",
+    "Shortfall",
+    ...config.poolConfig.map(pool => getComptrollerName(pool)),
+    ...config.poolConfig.flatMap(pool => (pool.rewards || []).map(reward => getRewardsDistributorName(pool, reward))),
+  ];
+  const abi = ["function owner() view returns (address)", "function pendingOwner() view returns (address)"];
+  for (const contractName of contractNames) {
+    const deployment = await hre.deployments.getOrNull(contractName);
+    if (!deployment) {
+      failures.push(notDeployed(contractName));
+      continue;
+    }
+    const contract = await ethers.getContractAt(abi, deployment.address);
+    const actualOwner = await contract.owner();
+    const pendingOwner = await contract.pendingOwner();
+    if (!sameAddress(actualOwner, owner)) {
+      const pending = sameAddress(pendingOwner, owner) ? ", ownership not accepted yet" : "";
+      failures.push({ contract: contractName, field: "owner", expected: owner, actual: `${actualOwner}${pending}` });
+    } else if (pendingOwner !== ethers.constants.AddressZero) {
+      failures.push({
+        contract: contractName,
+        field: "pendingOwner",
+        expected: ethers.constants.AddressZero,
+        actual: pendingOwner,
+      });
+    }
+  }
+  return failures;
+};
+
+/**
+ * Checks a finished deployment end to end: beacon implementations, pool registration, market dependencies,
+ * ownership and permissions
+ * @param config deployment config of the network hre is connected to
+ * @returns the failures of every check, an empty list of failures means the check passed
+ */
+export const verifyDeployment = async (
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<VerificationResult[]> => {
+  return [
+    { check: "Beacons point at the implementations", failures: await getBeaconFailures(hre) },
+    { check: "Pools are registered in PoolRegistry", failures: await getPoolRegistrationDrifts(config, hre) },
+    { check: "Markets use the right contracts", failures: await getVTokenFailures(config, hre) },
+    { check: "Contracts are owned by NormalTimelock", failures: await getOwnershipFailures(config, hre) },
+    { check: "Permissions are granted", failures: await getAccessControlDrifts(config, hre) },
+  ];
+};
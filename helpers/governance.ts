@@ -0,0 +1,366 @@
+import { BaseContract, BigNumber, BigNumberish, utils } from "ethers";
+import fs from "fs";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+
+// A single call of a VIP, in the format printed by 013-vip-based-config.ts on live networks
+export type VipCommand = {
+  target: string;
+  signature: string;
+  params: unknown[];
+  value: BigNumberish;
+};
+
+// Timelock a proposal is queued in, as defined by GovernorBravo
+export enum ProposalType {
+  NORMAL,
+  FASTTRACK,
+  CRITICAL,
+}
+
+// Arguments of GovernorBravo.propose, plus the encoded call and its hash so reviewers can match it on-chain
+export type Proposal = {
+  governorBravo: string;
+  description: string;
+  proposalType: ProposalType;
+  targets: string[];
+  values: string[];
+  signatures: string[];
+  calldatas: string[];
+  proposeCalldata: string;
+  proposalHash: string;
+};
+
+// Transaction batch in the format imported by the Safe Transaction Builder app
+export type SafeBatch = {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: SafeTransaction[];
+};
+
+export type SafeTransaction = {
+  to: string;
+  value: string;
+  data: string | null;
+  contractMethod: {
+    name: string;
+    payable: boolean;
+    inputs: SafeMethodInput[];
+  };
+  contractInputsValues: { [name: string]: string };
+};
+
+type SafeMethodInput = {
+  name: string;
+  type: string;
+  internalType: string;
+  components?: SafeMethodInput[];
+};
+
+const SAFE_TX_BUILDER_VERSION = "1.16.3";
+
+const governorBravoInterface = new utils.Interface([
+  "function propose(address[] targets, uint256[] values, string[] signatures, bytes[] calldatas, string description, uint8 proposalType) returns (uint256)",
+]);
+
+// Values a JSON file can hold, commands and proposals are stored as JSON
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+const isVipCommand = (value: unknown): value is VipCommand => {
+  return (
+    isRecord(value) &&
+    typeof value.target === "string" &&
+    typeof value.signature === "string" &&
+    Array.isArray(value.params)
+  );
+};
+
+const isSafeBatch = (value: unknown): value is SafeBatch => {
+  return isRecord(value) && Array.isArray(value.transactions) && "meta" in value;
+};
+
+const isProposal = (value: unknown): value is Proposal => {
+  return isRecord(value) && Array.isArray(value.targets) && "proposeCalldata" in value;
+};
+
+// Decoded values are returned as ethers Results and BigNumbers, they are turned back into plain JSON values
+export const toJsonValue = (value: unknown): JsonValue => {
+  if (BigNumber.isBigNumber(value)) {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return [...value].map(toJsonValue);
+  }
+  return value as JsonValue;
+};
+
+// Params of a command, decoded from calldata as an ethers Result
+export const toJsonValues = (values: readonly unknown[]): JsonValue[] => [...values].map(toJsonValue);
+
+// ABI-encoded params of a command, without the selector, as GovernorBravo expects them in calldatas
+export const encodeVipCommandParams = (command: VipCommand): string => {
+  const fragment = utils.FunctionFragment.from(command.signature);
+  return utils.defaultAbiCoder.encode(fragment.inputs, command.params);
+};
+
+// Calldata of a command: the selector of its signature followed by the ABI-encoded params
+export const encodeVipCommand = (command: VipCommand): string => {
+  const selector = utils.Interface.getSighash(utils.FunctionFragment.from(command.signature));
+  return utils.hexConcat([selector, encodeVipCommandParams(command)]);
+};
+
+/**
+ * Builds a command from a typechain contract, so that the method and its arguments are checked against the contract
+ * at compile time. The signature is derived from the ABI and structs are turned into tuples
+ * @param contract contract the command is sent to, e.g. from ethers.getContractAt<Comptroller>
+ * @param method name of the method, or its signature for overloaded methods
+ * @param args arguments of the method
+ * @param value amount of native currency sent with the call
+ * @returns the command, ready to be executed or written to a proposal or a Safe batch
+ */
+export const cmd = <C extends BaseContract, M extends keyof C["functions"] & string>(
+  contract: C,
+  method: M,
+  args: Parameters<C["functions"][M]>,
+  value: BigNumberish = 0,
+): VipCommand => {
+  const fragment = contract.interface.getFunction(method);
+  // Encoding fails on arguments that do not match the ABI, decoding returns structs as positional values
+  const data = contract.interface.encodeFunctionData(fragment, args);
+  const params = toJsonValues(contract.interface.decodeFunctionData(fragment, data));
+  return { target: contract.address, signature: fragment.format(), params, value };
+};
+
+/**
+ * Sends the commands from the deployer, on networks where the deployer holds the permissions instead of governance
+ * @param commands commands in execution order
+ */
+export const executeAsDeployer = async (commands: VipCommand[], hre: HardhatRuntimeEnvironment) => {
+  const { deployer } = await hre.getNamedAccounts();
+  const signer = await hre.ethers.getSigner(deployer);
+  for (const command of commands) {
+    console.log(`Executing ${command.target}.${command.signature} (${command.params.map(String).join(", ")})`);
+    const tx = await signer.sendTransaction({
+      to: command.target,
+      data: encodeVipCommand(command),
+      value: command.value,
+    });
+    await tx.wait();
+  }
+};
+
+/**
+ * Builds the GovernorBravo proposal that executes the given commands
+ * @param commands commands in execution order
+ * @param governorBravo address of the GovernorBravo proxy the proposal is submitted to
+ * @param description description of the proposal
+ * @param proposalType timelock the proposal is queued in
+ * @returns the propose() arguments, the full propose() calldata and its keccak256 hash
+ */
+export const buildProposal = (
+  commands: VipCommand[],
+  governorBravo: string,
+  description: string,
+  proposalType: ProposalType = ProposalType.NORMAL,
+): Proposal => {
+  const targets = commands.map(command => command.target);
+  const values = commands.map(command => BigNumber.from(command.value).toString());
+  const signatures = commands.map(command => command.signature);
+  const calldatas = commands.map(encodeVipCommandParams);
+  const proposeCalldata = governorBravoInterface.encodeFunctionData("propose", [
+    targets,
+    values,
+    signatures,
+    calldatas,
+    description,
+    proposalType,
+  ]);
+  return {
+    governorBravo,
+    description,
+    proposalType,
+    targets,
+    values,
+    signatures,
+    calldatas,
+    proposeCalldata,
+    proposalHash: utils.keccak256(proposeCalldata),
+  };
+};
+
+/**
+ * Decodes the commands of a proposal, after checking that the propose() calldata and the hash match its arguments
+ * @param proposal proposal as written by writeProposal
+ * @returns the commands in execution order
+ */
+export const decodeProposal = (proposal: Proposal): VipCommand[] => {
+  const { targets, values, signatures, calldatas } = proposal;
+  if (values.length !== targets.length || signatures.length !== targets.length || calldatas.length !== targets.length) {
+    throw new Error("targets, values, signatures and calldatas should have the same length");
+  }
+  const commands = targets.map((target: string, idx: number) => {
+    const fragment = utils.FunctionFragment.from(signatures[idx]);
+    const params = toJsonValues(utils.defaultAbiCoder.decode(fragment.inputs, calldatas[idx]));
+    return { target, signature: signatures[idx], params, value: values[idx] };
+  });
+  const rebuilt = buildProposal(commands, proposal.governorBravo, proposal.description, proposal.proposalType);
+  rebuilt.calldatas.forEach((calldata: string, idx: number) => {
+    if (calldata !== calldatas[idx].toLowerCase()) {
+      throw new Error(`calldatas[${idx}] does not match the params of ${signatures[idx]}`);
+    }
+  });
+  if (rebuilt.proposeCalldata !== proposal.proposeCalldata.toLowerCase()) {
+    throw new Error("proposeCalldata does not match the proposal arguments");
+  }
+  if (rebuilt.proposalHash !== proposal.proposalHash.toLowerCase()) {
+    throw new Error(`proposalHash should be ${rebuilt.proposalHash}, got ${proposal.proposalHash}`);
+  }
+  return commands;
+};
+
+export const writeProposal = (proposal: Proposal, filePath: string) => {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(proposal, null, 2) + "\n");
+  console.log(`Proposal written to ${filePath}, hash ${proposal.proposalHash}`);
+};
+
+export const readProposal = (filePath: string): Proposal => {
+  const contents = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  if (!isProposal(contents)) {
+    throw new Error(`${filePath}: expected a proposal with targets, values, signatures and calldatas`);
+  }
+  return contents;
+};
+
+// The Transaction Builder names every input, unnamed params of a signature are named after their position
+const toSafeMethodInput = (param: utils.ParamType, idx: number): SafeMethodInput => {
+  return {
+    name: param.name || `arg${idx}`,
+    type: param.type,
+    internalType: param.type,
+    ...(param.components && { components: param.components.map(toSafeMethodInput) }),
+  };
+};
+
+// Arrays and tuples are entered as JSON in the Transaction Builder, other values as plain strings
+const toSafeInputValue = (param: utils.ParamType, value: unknown): string => {
+  if (param.baseType === "array" || param.baseType === "tuple") {
+    return JSON.stringify(toJsonValue(value), (_, element) =>
+      typeof element === "number" || BigNumber.isBigNumber(element) ? element.toString() : element,
+    );
+  }
+  return String(toJsonValue(value));
+};
+
+const fromSafeInputValue = (param: utils.ParamType, value: string): unknown => {
+  if (param.baseType === "array" || param.baseType === "tuple") {
+    return JSON.parse(value);
+  }
+  if (param.baseType === "bool") {
+    return value === "true";
+  }
+  return value;
+};
+
+/**
+ * Builds a Safe Transaction Builder batch that executes the given commands from a multisig
+ * @param commands commands in execution order
+ * @param safe address of the multisig the batch is created for
+ * @param chainId chain id of the network the multisig is deployed on
+ * @param name name of the batch shown in the Transaction Builder
+ * @returns the batch, with decoded method names and typed inputs for every command
+ */
+export const buildSafeBatch = (commands: VipCommand[], safe: string, chainId: number, name: string): SafeBatch => {
+  const transactions = commands.map((command: VipCommand): SafeTransaction => {
+    const fragment = utils.FunctionFragment.from(command.signature);
+    const inputs = fragment.inputs.map(toSafeMethodInput);
+    const contractInputsValues = Object.fromEntries(
+      fragment.inputs.map((param: utils.ParamType, idx: number) => [
+        inputs[idx].name,
+        toSafeInputValue(param, command.params[idx]),
+      ]),
+    );
+    return {
+      to: command.target,
+      value: BigNumber.from(command.value).toString(),
+      data: null,
+      contractMethod: { name: fragment.name, payable: !BigNumber.from(command.value).isZero(), inputs },
+      contractInputsValues,
+    };
+  });
+  return {
+    version: "1.0",
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name,
+      description: "",
+      txBuilderVersion: SAFE_TX_BUILDER_VERSION,
+      createdFromSafeAddress: safe,
+      createdFromOwnerAddress: "",
+    },
+    transactions,
+  };
+};
+
+export const decodeSafeBatch = (batch: SafeBatch): VipCommand[] => {
+  return batch.transactions.map((transaction: SafeTransaction) => {
+    const { name, inputs } = transaction.contractMethod;
+    const fragment = utils.FunctionFragment.from({ type: "function", name, inputs, stateMutability: "nonpayable" });
+    const params = fragment.inputs.map((param: utils.ParamType, idx: number) =>
+      fromSafeInputValue(param, transaction.contractInputsValues[inputs[idx].name]),
+    );
+    return { target: transaction.to, signature: fragment.format(), params, value: transaction.value };
+  });
+};
+
+export const writeSafeBatch = (batch: SafeBatch, filePath: string) => {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(batch, null, 2) + "\n");
+  console.log(`Safe transaction batch written to ${filePath}, import it in the Transaction Builder of the multisig`);
+};
+
+/**
+ * Reads the timelock a VIP file is queued in
+ * @param filePath path to a file loadVipCommands reads
+ * @returns the proposal type of a proposal file, NORMAL for Safe batches and command arrays
+ */
+export const getVipProposalType = (filePath: string): ProposalType => {
+  const contents = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  return isProposal(contents) ? contents.proposalType : ProposalType.NORMAL;
+};
+
+/**
+ * Reads the commands of a VIP from a JSON file
+ * @param filePath path to a proposal file, a Safe transaction batch, or a file with the JSON array printed by the
+ * VIP deployment script
+ * @returns the commands in execution order
+ */
+export const loadVipCommands = (filePath: string): VipCommand[] => {
+  const contents = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  if (isProposal(contents)) {
+    return decodeProposal(contents);
+  }
+  if (isSafeBatch(contents)) {
+    return decodeSafeBatch(contents);
+  }
+  if (!Array.isArray(contents)) {
+    throw new Error(`${filePath}: expected a proposal, a Safe transaction batch or a JSON array of VIP commands`);
+  }
+  contents.forEach((command: unknown, idx: number) => {
+    if (!isVipCommand(command)) {
+      throw new Error(`${filePath}: command #${idx} should have a target, a signature and params`);
+    }
+  });
+  return contents;
+};
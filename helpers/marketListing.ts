@@ -0,0 +1,171 @@
+import fs from "fs";
+import { ethers } from "hardhat";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { PoolRegistry, VToken } from "../typechain";
+import { formatConfigIssues, validateDeploymentConfig } from "./configValidation";
+import { DeploymentConfig, VTokenConfig, getTokenConfig, resolveConfigSnippet } from "./deploymentConfig";
+import { getUnderlyingMock, getUnderlyingToken, toAddress } from "./deploymentUtils";
+import { VipCommand, cmd } from "./governance";
+
+// VTreasury is deployed by the core pool repo, only the method used here is needed
+const VTREASURY_ABI = [
+  "function withdrawTreasuryToken(address tokenAddress, uint256 withdrawAmount, address withdrawAddress)",
+];
+
+// On live networks the initial supply is taken from the treasury, locally it is minted by faucetInitialSupply
+const withdrawInitialSupply = async (
+  vTokenConfig: VTokenConfig,
+  deploymentConfig: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<VipCommand[]> => {
+  if (!hre.network.live) {
+    return [];
+  }
+  const { preconfiguredAddresses, tokensConfig } = deploymentConfig;
+  const { asset, initialSupply } = vTokenConfig;
+  const token = getTokenConfig(asset, tokensConfig);
+  const tokenContract = await getUnderlyingToken(token.symbol, tokensConfig);
+  const treasury = await ethers.getContractAt(VTREASURY_ABI, preconfiguredAddresses.VTreasury);
+  console.log(`Adding a command to withdraw ${initialSupply} ${token.symbol} to Timelock from Treasury`);
+  return [
+    cmd(treasury, "withdrawTreasuryToken", [
+      tokenContract.address,
+      initialSupply,
+      preconfiguredAddresses.NormalTimelock,
+    ]),
+  ];
+};
+
+/**
+ * Mints the initial supply of markets with a mock underlying to the deployer, like the InitialLiquidity deployment
+ * does, so that the markets can be added locally. Does nothing on live networks
+ * @param vTokenConfigs markets about to be listed
+ * @param deploymentConfig deployment config of the network
+ */
+export const faucetInitialSupply = async (
+  vTokenConfigs: VTokenConfig[],
+  deploymentConfig: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+) => {
+  if (hre.network.live) {
+    return;
+  }
+  for (const { asset, initialSupply } of vTokenConfigs) {
+    const token = getTokenConfig(asset, deploymentConfig.tokensConfig);
+    if (!token.isMock && !token.faucetInitialLiquidity) {
+      continue;
+    }
+    const tokenContract = await getUnderlyingMock(token.symbol);
+    console.log(`Minting ${initialSupply} mock ${token.symbol} to owner`);
+    const tx = await tokenContract.faucet(initialSupply, { gasLimit: 5000000 });
+    await tx.wait(1);
+  }
+};
+
+const approvePoolRegistry = async (
+  poolRegistryAddress: string,
+  vTokenConfig: VTokenConfig,
+  deploymentConfig: DeploymentConfig,
+): Promise<VipCommand[]> => {
+  const { tokensConfig } = deploymentConfig;
+  const { asset, initialSupply } = vTokenConfig;
+  const token = getTokenConfig(asset, tokensConfig);
+  const tokenContract = await getUnderlyingToken(token.symbol, tokensConfig);
+  console.log(`Adding commands to approve ${initialSupply} ${token.symbol} to PoolRegistry`);
+  // Tokens like USDT only accept a new allowance once the previous one was reset
+  return [0, initialSupply].map(amount => cmd(tokenContract, "approve", [poolRegistryAddress, amount]));
+};
+
+export const setReduceReservesBlockDelta = async (
+  vTokenAddress: string,
+  vTokenConfig: VTokenConfig,
+): Promise<VipCommand> => {
+  const { name, reduceReservesBlockDelta } = vTokenConfig;
+  const vToken = await ethers.getContractAt<VToken>("VToken", vTokenAddress);
+  console.log(`Adding a command to set reduce reserves block delta of ${name}`);
+  return cmd(vToken, "setReduceReservesBlockDelta", [reduceReservesBlockDelta]);
+};
+
+const addMarket = async (
+  poolRegistry: PoolRegistry,
+  vTokenAddress: string,
+  vTokenConfig: VTokenConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<VipCommand> => {
+  const { name, collateralFactor, liquidationThreshold, initialSupply, supplyCap, borrowCap } = vTokenConfig;
+  console.log(`Adding a command to register ${name} to PoolRegistry`);
+  const vTokenReceiver = await toAddress(vTokenConfig.vTokenReceiver, hre);
+  return cmd(poolRegistry, "addMarket", [
+    {
+      vToken: vTokenAddress,
+      collateralFactor,
+      liquidationThreshold,
+      initialSupply,
+      vTokenReceiver,
+      supplyCap,
+      borrowCap,
+    },
+  ]);
+};
+
+/**
+ * Builds the config of a market from a file written like the markets of helpers/config and from overrides, e.g.
+ * the flags of a task. The market is validated as if it was part of the pool in the deployment config
+ * @param poolId id of the pool the market is added to
+ * @param configPath optional JSON file with the market
+ * @param overrides fields taking precedence over the file, undefined fields are ignored
+ * @param deploymentConfig deployment config of the network
+ * @returns the market with every reference and unit string resolved
+ */
+export const resolveMarketConfig = (
+  poolId: string,
+  configPath: string | undefined,
+  overrides: Partial<VTokenConfig>,
+  deploymentConfig: DeploymentConfig,
+): VTokenConfig => {
+  const snippet = configPath ? JSON.parse(fs.readFileSync(configPath, "utf-8")) : {};
+  const definedOverrides = Object.entries(overrides).filter(([, value]) => value !== undefined);
+  const vTokenConfig: VTokenConfig = resolveConfigSnippet(
+    { ...snippet, ...Object.fromEntries(definedOverrides) },
+    deploymentConfig,
+  );
+
+  const poolIdx = deploymentConfig.poolConfig.findIndex(pool => pool.id === poolId);
+  if (poolIdx === -1) {
+    throw new Error(`pool ${poolId} is not defined in the deployment config`);
+  }
+  // A market already defined in the pool is replaced, so that its own definition is not reported as a duplicate
+  const pool = deploymentConfig.poolConfig[poolIdx];
+  const vtokens = [...pool.vtokens.filter(vToken => vToken.symbol !== vTokenConfig.symbol), vTokenConfig];
+  const poolConfig = [...deploymentConfig.poolConfig];
+  poolConfig[poolIdx] = { ...pool, vtokens };
+  const issues = validateDeploymentConfig({ ...deploymentConfig, poolConfig });
+  if (issues.length > 0) {
+    throw new Error(`Invalid market ${vTokenConfig.symbol}:\n${formatConfigIssues(issues)}`);
+  }
+  return vTokenConfig;
+};
+
+/**
+ * Builds the commands that list a deployed VToken in its pool: the initial supply is withdrawn from the treasury
+ * (on live networks) and approved to PoolRegistry, then the market is configured and added
+ * @param vTokenAddress address of the VToken_<symbol> proxy
+ * @param vTokenConfig market to list
+ * @param deploymentConfig deployment config of the network
+ * @returns the commands in execution order
+ */
+export const getMarketListingCommands = async (
+  vTokenAddress: string,
+  vTokenConfig: VTokenConfig,
+  deploymentConfig: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<VipCommand[]> => {
+  const poolRegistry = await ethers.getContract<PoolRegistry>("PoolRegistry");
+  return [
+    ...(await withdrawInitialSupply(vTokenConfig, deploymentConfig, hre)),
+    ...(await approvePoolRegistry(poolRegistry.address, vTokenConfig, deploymentConfig)),
+    await setReduceReservesBlockDelta(vTokenAddress, vTokenConfig),
+    await addMarket(poolRegistry, vTokenAddress, vTokenConfig, hre),
+  ];
+};
@@ -0,0 +1,250 @@
+import { contracts as governanceBscMainnet } from "@venusprotocol/governance-contracts/deployments/bscmainnet.json";
+import { contracts as governanceBscTestnet } from "@venusprotocol/governance-contracts/deployments/bsctestnet.json";
+import { contracts as governanceEthereum } from "@venusprotocol/governance-contracts/deployments/ethereum.json";
+import { contracts as governanceOpbnbTestnet } from "@venusprotocol/governance-contracts/deployments/opbnbtestnet.json";
+import { contracts as governanceSepolia } from "@venusprotocol/governance-contracts/deployments/sepolia.json";
+import { contracts as venusProtocolBscMainnet } from "@venusprotocol/venus-protocol/deployments/bscmainnet.json";
+import { contracts as venusProtocolBscTestnet } from "@venusprotocol/venus-protocol/deployments/bsctestnet.json";
+import { contracts as venusProtocolEthereum } from "@venusprotocol/venus-protocol/deployments/ethereum.json";
+import { contracts as venusProtocolOpbnbTestnet } from "@venusprotocol/venus-protocol/deployments/opbnbtestnet.json";
+import { contracts as venusProtocolSepolia } from "@venusprotocol/venus-protocol/deployments/sepolia.json";
+
+// Network registry, hardhat.config.ts and the deployment config derive everything network specific from it.
+// It is loaded with the hardhat config, so it must not depend on the hardhat runtime
+
+// Where the deployer key of a live network comes from, resolved when the network is first asked for an account
+export type SignerConfig =
+  // Hex private key in an environment variable
+  | { type: "env"; variable: string }
+  // Encrypted JSON keystore, the passphrase is read from passphraseVariable or prompted for
+  | { type: "keystore"; path: string; passphraseVariable?: string }
+  // Secret reference read with the 1Password CLI, e.g. op://Private/PrivateWallet/PK
+  | { type: "1password"; reference: string }
+  // Read-only: no account is available, transactions cannot be sent
+  | { type: "none" };
+
+export type NetworkDefinition = {
+  chainId: number;
+  // Public RPC, overridden by the rpcEnvVar variable, usually set to an archive node
+  rpcUrl?: string;
+  rpcEnvVar?: string;
+  live: boolean;
+  // Average block time in seconds, interest rate models and reward speeds are expressed per block
+  blockTime?: number;
+  // Block explorer API used to verify the sources, networks known to hardhat-etherscan do not need one
+  explorer?: { apiURL: string; browserURL: string };
+  // Packages whose deployments of this network are loaded by hardhat-deploy
+  externalDeployments: string[];
+  // Contracts deployed outside of this repo, governance among them
+  addresses: { [contract: string]: string };
+  // Data file in helpers/config the deploy scripts use, networks without one cannot be deployed to
+  deploymentConfig?: string;
+  // Transactions are signed by the RPC, e.g. Frame, rather than with the deployer key
+  remoteAccounts?: boolean;
+  // Signer of the network, networks without one use the deployer key of the environment (see hardhat.config.ts)
+  signer?: SignerConfig;
+  gasPrice?: number;
+  timeout?: number;
+};
+
+const SECONDS_PER_YEAR = 31_536_000;
+const BSC_BLOCK_TIME = 3;
+const ETH_BLOCK_TIME = 12;
+const OPBNB_BLOCK_TIME = 1;
+
+export const SEPOLIA_MULTISIG = "0x94fa6078b6b8a26f0b6edffbe6501b22a10470fb";
+export const ETHEREUM_MULTISIG = "0x285960C5B22fD66A736C7136967A3eB15e93CC67";
+export const OPBNBTESTNET_MULTISIG = "0xb15f6EfEbC276A3b9805df81b5FB3D50C2A62BDf";
+
+const VENUS_DEPLOYMENTS = ["@venusprotocol/oracle", "@venusprotocol/venus-protocol", "@venusprotocol/protocol-reserve"];
+
+const nodeRealExplorer = (network: string) =>
+  `https://open-platform.nodereal.io/${process.env.ETHERSCAN_API_KEY}/${network}`;
+
+export const networks: { [name: string]: NetworkDefinition } = {
+  hardhat: {
+    chainId: 31337,
+    live: false,
+    blockTime: BSC_BLOCK_TIME,
+    externalDeployments: [],
+    addresses: {
+      VTreasury: "account:deployer",
+    },
+    deploymentConfig: "hardhat",
+  },
+  // Local node forking bsctestnet
+  development: {
+    chainId: 31337,
+    rpcUrl: "http://127.0.0.1:8545/",
+    live: false,
+    blockTime: BSC_BLOCK_TIME,
+    externalDeployments: [],
+    addresses: {},
+    deploymentConfig: "bsctestnet",
+  },
+  bsctestnet: {
+    chainId: 97,
+    rpcUrl: "https://data-seed-prebsc-1-s1.binance.org:8545",
+    rpcEnvVar: "ARCHIVE_NODE_bsctestnet",
+    live: true,
+    blockTime: BSC_BLOCK_TIME,
+    explorer: { apiURL: "https://api-testnet.bscscan.com/api", browserURL: "https://testnet.bscscan.com" },
+    externalDeployments: VENUS_DEPLOYMENTS,
+    addresses: {
+      VTreasury: venusProtocolBscTestnet.VTreasury.address,
+      NormalTimelock: governanceBscTestnet.NormalTimelock.address,
+      FastTrackTimelock: governanceBscTestnet.FastTrackTimelock.address,
+      CriticalTimelock: governanceBscTestnet.CriticalTimelock.address,
+      GovernorBravo: governanceBscTestnet.GovernorBravoDelegator.address,
+      AccessControlManager: governanceBscTestnet.AccessControlManager.address,
+      PancakeFactory: venusProtocolBscTestnet.pancakeFactory.address,
+      WBNB: venusProtocolBscTestnet.WBNB.address,
+      VBNB_CorePool: venusProtocolBscTestnet.vBNB.address,
+      SwapRouter_CorePool: venusProtocolBscTestnet.SwapRouterCorePool.address,
+      Unitroller: venusProtocolBscTestnet.Unitroller.address,
+      Shortfall: "0x503574a82fE2A9f968d355C8AAc1Ba0481859369",
+    },
+    deploymentConfig: "bsctestnet",
+    gasPrice: 20000000000,
+  },
+  bscmainnet: {
+    chainId: 56,
+    rpcUrl: "https://bsc-dataseed.binance.org/",
+    rpcEnvVar: "ARCHIVE_NODE_bscmainnet",
+    live: true,
+    blockTime: BSC_BLOCK_TIME,
+    explorer: { apiURL: "https://api.bscscan.com/api", browserURL: "https://bscscan.com" },
+    externalDeployments: ["@venusprotocol/protocol-reserve"],
+    addresses: {
+      VTreasury: venusProtocolBscMainnet.VTreasury.address,
+      NormalTimelock: governanceBscMainnet.NormalTimelock.address,
+      FastTrackTimelock: governanceBscMainnet.FastTrackTimelock.address,
+      CriticalTimelock: governanceBscMainnet.CriticalTimelock.address,
+      GovernorBravo: governanceBscMainnet.GovernorBravoDelegator.address,
+      AccessControlManager: governanceBscMainnet.AccessControlManager.address,
+      PancakeFactory: venusProtocolBscMainnet.pancakeFactory.address,
+      WBNB: venusProtocolBscMainnet.WBNB.address,
+      VBNB_CorePool: venusProtocolBscMainnet.vBNB.address,
+      SwapRouter_CorePool: venusProtocolBscMainnet.SwapRouterCorePool.address,
+      Unitroller: venusProtocolBscMainnet.Unitroller.address,
+      Shortfall: "0xf37530A8a810Fcb501AA0Ecd0B0699388F0F2209",
+    },
+    deploymentConfig: "bscmainnet",
+    timeout: 1200000, // 20 minutes
+  },
+  ethereum: {
+    chainId: 1,
+    rpcUrl: "https://ethereum.blockpi.network/v1/rpc/public",
+    rpcEnvVar: "ARCHIVE_NODE_ethereum",
+    live: true,
+    blockTime: ETH_BLOCK_TIME,
+    externalDeployments: VENUS_DEPLOYMENTS,
+    addresses: {
+      VTreasury: venusProtocolEthereum.VTreasuryV8.address,
+      NormalTimelock: ETHEREUM_MULTISIG,
+      FastTrackTimelock: ETHEREUM_MULTISIG,
+      CriticalTimelock: ETHEREUM_MULTISIG,
+      GovernorBravo: ETHEREUM_MULTISIG,
+      AccessControlManager: governanceEthereum.AccessControlManager.address,
+    },
+    deploymentConfig: "ethereum",
+    remoteAccounts: true,
+    timeout: 1200000, // 20 minutes
+  },
+  sepolia: {
+    chainId: 11155111,
+    rpcUrl: "https://ethereum-sepolia.blockpi.network/v1/rpc/public",
+    rpcEnvVar: "ARCHIVE_NODE_sepolia",
+    live: true,
+    blockTime: ETH_BLOCK_TIME,
+    externalDeployments: VENUS_DEPLOYMENTS,
+    addresses: {
+      VTreasury: venusProtocolSepolia.VTreasuryV8.address,
+      NormalTimelock: SEPOLIA_MULTISIG,
+      FastTrackTimelock: SEPOLIA_MULTISIG,
+      CriticalTimelock: SEPOLIA_MULTISIG,
+      GovernorBravo: SEPOLIA_MULTISIG,
+      AccessControlManager: governanceSepolia.AccessControlManager.address,
+    },
+    deploymentConfig: "sepolia",
+  },
+  opbnbtestnet: {
+    chainId: 5611,
+    rpcUrl: "https://opbnb-testnet-rpc.bnbchain.org",
+    rpcEnvVar: "ARCHIVE_NODE_opbnbtestnet",
+    live: true,
+    blockTime: OPBNB_BLOCK_TIME,
+    explorer: {
+      apiURL: `${nodeRealExplorer("op-bnb-testnet")}/contract/`,
+      browserURL: "https://testnet.opbnbscan.com/",
+    },
+    externalDeployments: [],
+    addresses: {
+      VTreasury: venusProtocolOpbnbTestnet.VTreasuryV8.address,
+      NormalTimelock: OPBNBTESTNET_MULTISIG,
+      FastTrackTimelock: OPBNBTESTNET_MULTISIG,
+      CriticalTimelock: OPBNBTESTNET_MULTISIG,
+      AccessControlManager: governanceOpbnbTestnet.AccessControlManager.address,
+    },
+    deploymentConfig: "opbnbtestnet",
+  },
+  opbnbmainnet: {
+    chainId: 204,
+    rpcUrl: "https://opbnb-mainnet-rpc.bnbchain.org",
+    rpcEnvVar: "ARCHIVE_NODE_opbnbmainnet",
+    live: true,
+    blockTime: OPBNB_BLOCK_TIME,
+    explorer: { apiURL: `${nodeRealExplorer("op-bnb-mainnet")}/contract/`, browserURL: "https://opbnbscan.com/" },
+    externalDeployments: [],
+    addresses: {},
+  },
+  artio: {
+    chainId: 80085,
+    rpcUrl: "https://artio.rpc.berachain.com/",
+    rpcEnvVar: "ARCHIVE_NODE_artio",
+    live: true,
+    externalDeployments: [],
+    addresses: {},
+  },
+  mumbai: {
+    chainId: 80001,
+    rpcUrl: "https://rpc-mumbai.maticvigil.com/",
+    rpcEnvVar: "ARCHIVE_NODE_mumbai",
+    live: true,
+    blockTime: 2,
+    externalDeployments: [],
+    addresses: {},
+  },
+};
+
+export const getNetwork = (name: string): NetworkDefinition => {
+  const network = networks[name];
+  if (!network) {
+    throw new Error(`network ${name} is not defined in helpers/networks.ts`);
+  }
+  return network;
+};
+
+export const getRpcUrl = (name: string): string => {
+  const { rpcUrl, rpcEnvVar } = getNetwork(name);
+  const url = (rpcEnvVar && process.env[rpcEnvVar]) || rpcUrl;
+  if (!url) {
+    throw new Error(`network ${name} has no RPC url`);
+  }
+  return url;
+};
+
+export const getBlocksPerYear = (name: string): number => {
+  const { blockTime } = getNetwork(name);
+  if (!blockTime) {
+    throw new Error(`block time of network ${name} is not defined in helpers/networks.ts`);
+  }
+  return SECONDS_PER_YEAR / blockTime;
+};
+
+// On these networks the timelocks in the addresses are Safe multisigs rather than governance timelocks
+export const isMultisig = (address: string): boolean => {
+  return [SEPOLIA_MULTISIG, ETHEREUM_MULTISIG, OPBNBTESTNET_MULTISIG].some(
+    multisig => multisig.toLowerCase() === address.toLowerCase(),
+  );
+};
@@ -0,0 +1,183 @@
+import { ethers } from "hardhat";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { Comptroller, Ownable2StepUpgradeable, PoolRegistry, RewardsDistributor } from "../typechain";
+import { DeploymentConfig, PoolConfig, RewardConfig } from "./deploymentConfig";
+import { getComptrollerName, getRewardsDistributorName, getVTokenName } from "./deploymentUtils";
+import { VipCommand, cmd } from "./governance";
+import { getMarketListingCommands } from "./marketListing";
+import { getCampaignWindow, hasCampaignEnded } from "./rewardCampaigns";
+import { getContributorCommands } from "./rewardContributors";
+
+// Contracts are deployed by the deployer and transferred to the timelock, which accepts them in the VIP
+export const acceptOwnership = async (
+  contractName: string,
+  targetOwner: string,
+  hre: HardhatRuntimeEnvironment,
+): Promise<VipCommand[]> => {
+  if (!hre.network.live) {
+    return [];
+  }
+  const deployment = await hre.deployments.get(contractName);
+  const contract = await ethers.getContractAt<Ownable2StepUpgradeable>("Ownable2StepUpgradeable", deployment.address);
+  if ((await contract.owner()) === targetOwner) {
+    return [];
+  }
+  console.log(`Adding a command to accept the admin rights over ${contractName}`);
+  return [cmd(contract, "acceptOwnership", [])];
+};
+
+export const setPriceOracle = async (comptrollerAddress: string, pool: PoolConfig): Promise<VipCommand> => {
+  const comptroller = await ethers.getContractAt<Comptroller>("Comptroller", comptrollerAddress);
+  const oracle = await ethers.getContract("ResilientOracle");
+  console.log(`Adding a command to set the price oracle for Comptroller_${pool.id}`);
+  return cmd(comptroller, "setPriceOracle", [oracle.address]);
+};
+
+export const addPool = async (
+  poolRegistryAddress: string,
+  comptrollerAddress: string,
+  pool: PoolConfig,
+): Promise<VipCommand> => {
+  const poolRegistry = await ethers.getContractAt<PoolRegistry>("PoolRegistry", poolRegistryAddress);
+  console.log(`Adding a command to add Comptroller_${pool.id} to PoolRegistry`);
+  return cmd(poolRegistry, "addPool", [
+    pool.name,
+    comptrollerAddress,
+    pool.closeFactor,
+    pool.liquidationIncentive,
+    pool.minLiquidatableCollateral,
+  ]);
+};
+
+export const addRewardsDistributor = async (
+  rewardsDistributorAddress: string,
+  pool: PoolConfig,
+  rewardConfig: RewardConfig,
+): Promise<VipCommand> => {
+  // Comptrollers are beacon proxies, deployed with the ABI of the proxy
+  const { address } = await ethers.getContract(getComptrollerName(pool));
+  const comptroller = await ethers.getContractAt<Comptroller>("Comptroller", address);
+  console.log(`Adding a command to add ${rewardConfig.asset} rewards distributor to Comptroller_${pool.id}`);
+  return cmd(comptroller, "addRewardsDistributor", [rewardsDistributorAddress]);
+};
+
+// Markets of a reward config, in the order of its speeds
+const getRewardedMarkets = async (pool: PoolConfig, rewardConfig: RewardConfig): Promise<string[]> => {
+  return Promise.all(
+    rewardConfig.markets.map(async (underlyingSymbol: string) => {
+      const vTokenConfig = pool.vtokens.find(vtoken => vtoken.asset === underlyingSymbol);
+      if (!vTokenConfig) {
+        throw new Error(`Market for ${underlyingSymbol} not found in pool ${pool.name}`);
+      }
+      const vToken = await ethers.getContract(getVTokenName(vTokenConfig));
+      console.log(`Found ${underlyingSymbol} at ${vToken.address}`);
+      return vToken.address;
+    }),
+  );
+};
+
+export const setRewardTokenSpeeds = async (
+  pool: PoolConfig,
+  rewardsDistributorAddress: string,
+  rewardConfig: RewardConfig,
+): Promise<VipCommand> => {
+  const vTokenAddresses = await getRewardedMarkets(pool, rewardConfig);
+  const rewardsDistributor = await ethers.getContractAt<RewardsDistributor>(
+    "RewardsDistributor",
+    rewardsDistributorAddress,
+  );
+  console.log(`Adding a command to set reward speed of ${rewardConfig.asset} for ${pool.name}`);
+  return cmd(rewardsDistributor, "setRewardTokenSpeeds", [
+    vTokenAddresses,
+    rewardConfig.supplySpeeds,
+    rewardConfig.borrowSpeeds,
+  ]);
+};
+
+export const setLastRewardingBlocks = async (
+  pool: PoolConfig,
+  rewardsDistributorAddress: string,
+  rewardConfig: RewardConfig,
+  endBlock: number,
+): Promise<VipCommand> => {
+  const vTokenAddresses = await getRewardedMarkets(pool, rewardConfig);
+  const rewardsDistributor = await ethers.getContractAt<RewardsDistributor>(
+    "RewardsDistributor",
+    rewardsDistributorAddress,
+  );
+  console.log(`Adding a command to end the ${rewardConfig.asset} rewards of ${pool.name} at block ${endBlock}`);
+  const endBlocks = vTokenAddresses.map(() => endBlock);
+  return cmd(rewardsDistributor, "setLastRewardingBlocks", [vTokenAddresses, endBlocks, endBlocks]);
+};
+
+/**
+ * Builds the commands setting the speeds of a reward config and the end of its campaign. Speeds apply as soon as they
+ * are set, so campaigns that have not started yet get no commands: their speeds are proposed once they start.
+ * Campaigns that ended get no commands either
+ * @param pool pool of the rewards distributor
+ * @param rewardsDistributorAddress rewards distributor paying the rewards
+ * @param rewardConfig reward config, with an optional campaign window
+ * @returns setRewardTokenSpeeds, followed by setLastRewardingBlocks when the campaign has an end
+ */
+export const getRewardSpeedCommands = async (
+  pool: PoolConfig,
+  rewardsDistributorAddress: string,
+  rewardConfig: RewardConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<VipCommand[]> => {
+  const name = `${rewardConfig.asset} rewards of ${pool.name}`;
+  const window = await getCampaignWindow(rewardConfig, hre);
+  const { startBlock, endBlock, currentBlock } = window;
+  if (hasCampaignEnded(window)) {
+    console.warn(`The ${name} ended at block ${endBlock}, skipping their speeds`);
+    return [];
+  }
+  if (startBlock !== undefined && startBlock > currentBlock) {
+    console.warn(`The ${name} start at block ${startBlock}, skipping their speeds until the campaign started`);
+    return [];
+  }
+  const commands = [await setRewardTokenSpeeds(pool, rewardsDistributorAddress, rewardConfig)];
+  if (endBlock !== undefined) {
+    commands.push(await setLastRewardingBlocks(pool, rewardsDistributorAddress, rewardConfig, endBlock));
+  }
+  return commands;
+};
+
+/**
+ * Builds the commands that bring a deployed pool to life: the comptroller is set up and registered, then every
+ * market is listed and every rewards distributor is attached with its speeds and contributors
+ * @param pool pool whose comptroller, markets and rewards distributors are already deployed
+ * @param deploymentConfig deployment config of the network
+ * @returns the commands in execution order
+ */
+export const getPoolCreationCommands = async (
+  pool: PoolConfig,
+  deploymentConfig: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<VipCommand[]> => {
+  const { deployer } = await hre.getNamedAccounts();
+  const owner = deploymentConfig.preconfiguredAddresses.NormalTimelock || deployer;
+  const poolRegistry = await hre.deployments.get("PoolRegistry");
+  const comptroller = await hre.deployments.get(getComptrollerName(pool));
+  const commands = [
+    ...(await acceptOwnership(getComptrollerName(pool), owner, hre)),
+    await setPriceOracle(comptroller.address, pool),
+    await addPool(poolRegistry.address, comptroller.address, pool),
+  ];
+  for (const vTokenConfig of pool.vtokens) {
+    const vToken = await hre.deployments.get(getVTokenName(vTokenConfig));
+    commands.push(...(await getMarketListingCommands(vToken.address, vTokenConfig, deploymentConfig, hre)));
+  }
+  for (const rewardConfig of pool.rewards || []) {
+    const contractName = getRewardsDistributorName(pool, rewardConfig);
+    const rewardsDistributor = await hre.deployments.get(contractName);
+    commands.push(
+      ...(await acceptOwnership(contractName, owner, hre)),
+      await addRewardsDistributor(rewardsDistributor.address, pool, rewardConfig),
+      ...(await getRewardSpeedCommands(pool, rewardsDistributor.address, rewardConfig, hre)),
+      ...(await getContributorCommands(rewardsDistributor.address, rewardConfig, hre)),
+    );
+  }
+  return commands;
+};
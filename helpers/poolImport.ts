@@ -0,0 +1,228 @@
+import { BigNumber } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  Comptroller,
+  ERC20,
+  JumpRateModelV2,
+  PoolLens,
+  RewardsDistributor,
+  VToken,
+  WhitePaperInterestRateModel,
+} from "../typechain";
+import { formatAnnualRate, formatKink, formatPercentage, formatTokenAmount } from "./configUnits";
+import { DeploymentConfig, PoolConfig, RewardConfig, TokenConfig, VTokenConfig } from "./deploymentConfig";
+import { toAddress } from "./deploymentUtils";
+import { scaleDownBy } from "./utils";
+
+// A pool written like the data files, with the tokens it needs that the data file does not define yet
+export type ImportedPool = {
+  poolConfig: PoolConfig;
+  tokensConfig: TokenConfig[];
+};
+
+/**
+ * Rate models store rates per block, rounded down from the rates per year they were deployed with. The rate per year
+ * is recovered as the roundest value that gives back the rate per block, e.g. 0.02e18 rather than 0.0199999999997e18
+ * @param ratePerBlock rate per block stored in the rate model
+ * @param blocksPerYear blocks per year of the rate model
+ * @returns the rate per year
+ */
+export const toRatePerYear = (ratePerBlock: BigNumber, blocksPerYear: BigNumber): BigNumber => {
+  const lowest = ratePerBlock.mul(blocksPerYear);
+  const highest = lowest.add(blocksPerYear).sub(1);
+  for (let exponent = 36; exponent > 0; exponent--) {
+    const unit = BigNumber.from(10).pow(exponent);
+    const rounded = lowest.add(unit).sub(1).div(unit).mul(unit);
+    if (rounded.lte(highest)) {
+      return rounded;
+    }
+  }
+  return lowest;
+};
+
+// The id of a deployed pool is the suffix of its deployment, other pools get their name without spaces
+const getPoolId = async (comptroller: string, name: string, hre: HardhatRuntimeEnvironment): Promise<string> => {
+  for (const [deploymentName, deployment] of Object.entries(await hre.deployments.all())) {
+    if (deploymentName.startsWith("Comptroller_") && deployment.address.toLowerCase() === comptroller.toLowerCase()) {
+      return deploymentName.slice("Comptroller_".length);
+    }
+  }
+  return name.replace(/[^A-Za-z0-9]/g, "");
+};
+
+/**
+ * Deployed rewards distributors keep the id they are deployed under, other rewards are numbered
+ * @param poolId id of the pool, as returned for its comptroller
+ * @param rewardsDistributor address of the rewards distributor
+ * @param idx position of the rewards distributor in the comptroller
+ * @returns the id of the reward
+ */
+export const getRewardId = async (
+  poolId: string,
+  rewardsDistributor: string,
+  idx: number,
+  hre: HardhatRuntimeEnvironment,
+): Promise<string> => {
+  const prefix = `RewardsDistributor_${poolId}_`;
+  for (const [deploymentName, deployment] of Object.entries(await hre.deployments.all())) {
+    if (
+      deploymentName.startsWith(prefix) &&
+      !deploymentName.endsWith("_Proxy") &&
+      !deploymentName.endsWith("_Implementation") &&
+      deployment.address.toLowerCase() === rewardsDistributor.toLowerCase()
+    ) {
+      return deploymentName.slice(prefix.length);
+    }
+  }
+  return idx.toString();
+};
+
+const getRateModelConfig = async (
+  rateModelAddress: string,
+  hre: HardhatRuntimeEnvironment,
+): Promise<
+  Pick<VTokenConfig, "rateModel" | "baseRatePerYear" | "multiplierPerYear" | "jumpMultiplierPerYear" | "kink_">
+> => {
+  const jumpRateModel = await hre.ethers.getContractAt<JumpRateModelV2>("JumpRateModelV2", rateModelAddress);
+  const blocksPerYear = await jumpRateModel.blocksPerYear();
+  const perYear = (ratePerBlock: BigNumber) => formatAnnualRate(toRatePerYear(ratePerBlock, blocksPerYear).toString());
+  try {
+    const jumpMultiplierPerBlock = await jumpRateModel.jumpMultiplierPerBlock();
+    return {
+      rateModel: "InterestRateModels.JumpRate",
+      baseRatePerYear: perYear(await jumpRateModel.baseRatePerBlock()),
+      multiplierPerYear: perYear(await jumpRateModel.multiplierPerBlock()),
+      jumpMultiplierPerYear: perYear(jumpMultiplierPerBlock),
+      kink_: formatKink((await jumpRateModel.kink()).toString()),
+    };
+  } catch {
+    // WhitePaperInterestRateModel has no jump multiplier
+    const rateModel = await hre.ethers.getContractAt<WhitePaperInterestRateModel>(
+      "WhitePaperInterestRateModel",
+      rateModelAddress,
+    );
+    return {
+      rateModel: "InterestRateModels.WhitePaper",
+      baseRatePerYear: perYear(await rateModel.baseRatePerBlock()),
+      multiplierPerYear: perYear(await rateModel.multiplierPerBlock()),
+      jumpMultiplierPerYear: "0% APR",
+      kink_: "0 kink",
+    };
+  }
+};
+
+/**
+ * Rebuilds the config of a pool registered in PoolRegistry from its contracts, e.g. to adopt a pool configured by
+ * VIPs. Tokens are named after the tokens of the deployment config when it defines them
+ * @param comptrollerAddress comptroller of the pool
+ * @param config deployment config of the network hre is connected to
+ * @returns the pool and the tokens to add to the data file
+ */
+export const importPoolConfig = async (
+  comptrollerAddress: string,
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<ImportedPool> => {
+  const { ethers } = hre;
+  const poolLens = await ethers.getContract<PoolLens>("PoolLens");
+  const poolRegistry = await toAddress(config.preconfiguredAddresses.PoolRegistry || "PoolRegistry", hre);
+  const pool = await poolLens.getPoolByComptroller(poolRegistry, comptrollerAddress);
+  if (pool.comptroller === ethers.constants.AddressZero) {
+    throw new Error(`${comptrollerAddress} is not registered in PoolRegistry`);
+  }
+  const comptroller = await ethers.getContractAt<Comptroller>("Comptroller", comptrollerAddress);
+
+  const knownTokens = new Map(config.tokensConfig.map(token => [token.tokenAddress.toLowerCase(), token]));
+  const newTokens = new Map<string, TokenConfig>();
+  const getToken = async (address: string): Promise<TokenConfig> => {
+    const key = address.toLowerCase();
+    const known = knownTokens.get(key) || newTokens.get(key);
+    if (known) {
+      return known;
+    }
+    const token = await ethers.getContractAt<ERC20>("@openzeppelin/contracts/token/ERC20/ERC20.sol:ERC20", address);
+    const tokenConfig: TokenConfig = {
+      isMock: false,
+      name: await token.name(),
+      symbol: await token.symbol(),
+      decimals: await token.decimals(),
+      tokenAddress: address,
+    };
+    newTokens.set(key, tokenConfig);
+    return tokenConfig;
+  };
+
+  const vtokens: VTokenConfig[] = [];
+  const underlyingSymbols = new Map<string, string>();
+  for (const metadata of pool.vTokens) {
+    const vToken = await ethers.getContractAt<VToken>("VToken", metadata.vToken);
+    const underlying = await getToken(metadata.underlyingAssetAddress);
+    underlyingSymbols.set(metadata.vToken.toLowerCase(), underlying.symbol);
+    const market = await comptroller.markets(metadata.vToken);
+    vtokens.push({
+      name: await vToken.name(),
+      symbol: await vToken.symbol(),
+      asset: underlying.symbol,
+      ...(await getRateModelConfig(await vToken.interestRateModel(), hre)),
+      collateralFactor: formatPercentage(metadata.collateralFactorMantissa.toString()),
+      liquidationThreshold: formatPercentage(market.liquidationThresholdMantissa.toString()),
+      reserveFactor: formatPercentage(metadata.reserveFactorMantissa.toString()),
+      // Only used when the market is added, PoolRegistry does not keep it
+      initialSupply: formatTokenAmount("0", underlying),
+      supplyCap: formatTokenAmount(metadata.supplyCaps.toString(), underlying),
+      borrowCap: formatTokenAmount(metadata.borrowCaps.toString(), underlying),
+      vTokenReceiver: "preconfiguredAddresses.VTreasury",
+      reduceReservesBlockDelta: (await vToken.reduceReservesBlockDelta()).toString(),
+    });
+  }
+
+  const poolId = await getPoolId(comptrollerAddress, pool.name, hre);
+  const rewards: RewardConfig[] = [];
+  for (const [idx, rewardsDistributorAddress] of (await comptroller.getRewardDistributors()).entries()) {
+    const rewardsDistributor = await ethers.getContractAt<RewardsDistributor>(
+      "RewardsDistributor",
+      rewardsDistributorAddress,
+    );
+    const rewardConfig: RewardConfig = {
+      id: await getRewardId(poolId, rewardsDistributorAddress, idx, hre),
+      asset: (await getToken(await rewardsDistributor.rewardToken())).symbol,
+      markets: [],
+      supplySpeeds: [],
+      borrowSpeeds: [],
+    };
+    const lastRewardingBlocks = new Set<number>();
+    for (const { vToken } of pool.vTokens) {
+      const supplySpeed = await rewardsDistributor.rewardTokenSupplySpeeds(vToken);
+      const borrowSpeed = await rewardsDistributor.rewardTokenBorrowSpeeds(vToken);
+      if (supplySpeed.isZero() && borrowSpeed.isZero()) {
+        continue;
+      }
+      rewardConfig.markets.push(underlyingSymbols.get(vToken.toLowerCase()) as string);
+      rewardConfig.supplySpeeds.push(supplySpeed.toString());
+      rewardConfig.borrowSpeeds.push(borrowSpeed.toString());
+      lastRewardingBlocks.add((await rewardsDistributor.rewardTokenSupplyState(vToken)).lastRewardingBlock);
+      lastRewardingBlocks.add((await rewardsDistributor.rewardTokenBorrowState(vToken)).lastRewardingBlock);
+    }
+    // A campaign end is only imported when every rewarded market ends at the same block
+    const [lastRewardingBlock] = [...lastRewardingBlocks];
+    if (lastRewardingBlocks.size === 1 && lastRewardingBlock > 0) {
+      rewardConfig.end = { block: lastRewardingBlock };
+    }
+    rewards.push(rewardConfig);
+  }
+
+  return {
+    poolConfig: {
+      id: poolId,
+      name: pool.name,
+      closeFactor: formatPercentage(pool.closeFactor.toString()),
+      liquidationIncentive: formatPercentage(pool.liquidationIncentive.toString()),
+      // Written as a unit string, like the data files
+      minLiquidatableCollateral: `${scaleDownBy(pool.minLiquidatableCollateral.toString(), 18)}e18`,
+      vtokens,
+      ...(rewards.length > 0 ? { rewards } : {}),
+    },
+    tokensConfig: [...newTokens.values()],
+  };
+};
@@ -0,0 +1,185 @@
+import { BigNumber } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { RewardsDistributor } from "../typechain";
+import { DeploymentConfig, PoolConfig, RewardConfig, TokenConfig, getTokenConfig } from "./deploymentConfig";
+import { getRewardsDistributorName, getUnderlyingToken } from "./deploymentUtils";
+import { getBlocksPerYear } from "./networks";
+import { getCampaignWindow, hasCampaignEnded } from "./rewardCampaigns";
+import { ContributorScanOptions, getContributorStreams } from "./rewardContributors";
+
+const DAYS_PER_YEAR = 365;
+const MONTHS_PER_YEAR = 12;
+
+// Amounts of reward token emitted by a reward config, over all its markets
+export type RewardEmissions = {
+  perBlock: BigNumber;
+  perDay: BigNumber;
+  perMonth: BigNumber;
+  perYear: BigNumber;
+};
+
+export type RewardBudget = {
+  rewardsDistributor: string;
+  token: TokenConfig;
+  emissions: RewardEmissions;
+  // Undefined when the rewards distributor is not deployed
+  balance?: BigNumber;
+  // Rewards accrued to suppliers, borrowers and contributors that are not claimed yet, paid from the balance
+  liabilities?: BigNumber;
+  // Days until the balance left after the liabilities is emitted, undefined when nothing is emitted or the balance is
+  // unknown
+  runwayDays?: BigNumber;
+  // Days until the campaign ends, undefined when the campaign has no end
+  campaignDays?: number;
+  // Whether the balance is emitted before the horizon or the end of the campaign, whichever comes first
+  runsDry: boolean;
+};
+
+/**
+ * Converts the per-block speeds of a reward config into emissions per day, month and year
+ * @param rewardConfig reward config, the supply and borrow speeds of every market and the speeds of the contributors
+ * are added up
+ * @param blocksPerYear blocks per year of the network
+ * @returns the emissions of the reward config
+ */
+export const getRewardEmissions = (rewardConfig: RewardConfig, blocksPerYear: number): RewardEmissions => {
+  const contributorSpeeds = (rewardConfig.contributors || []).map(({ speed }) => speed);
+  const perBlock = [...rewardConfig.supplySpeeds, ...rewardConfig.borrowSpeeds, ...contributorSpeeds].reduce(
+    (total, speed) => total.add(speed),
+    BigNumber.from(0),
+  );
+  const perYear = perBlock.mul(blocksPerYear);
+  return {
+    perBlock,
+    perDay: perYear.div(DAYS_PER_YEAR),
+    perMonth: perYear.div(MONTHS_PER_YEAR),
+    perYear,
+  };
+};
+
+/**
+ * Days the balance of a rewards distributor lasts at the given emissions, once the rewards it owes are paid
+ * @param balance reward token held by the rewards distributor
+ * @param liabilities rewards accrued to accounts and not claimed yet
+ * @param emissions emissions of the reward config
+ * @returns the runway in whole days, zero when the liabilities exceed the balance, undefined when nothing is emitted
+ */
+export const getRunwayDays = (
+  balance: BigNumber,
+  liabilities: BigNumber,
+  emissions: RewardEmissions,
+): BigNumber | undefined => {
+  if (emissions.perYear.isZero()) {
+    return undefined;
+  }
+  const available = balance.gt(liabilities) ? balance.sub(liabilities) : BigNumber.from(0);
+  return available.mul(DAYS_PER_YEAR).div(emissions.perYear);
+};
+
+/**
+ * Adds up the rewards a rewards distributor owes: what accrued to the suppliers and borrowers of its markets and to
+ * its contributors. Accounts are found in the distribution events, rewards accrued by the markets since the last
+ * interaction of an account are not distributed yet and not counted
+ * @param rewardsDistributorAddress rewards distributor paying the rewards
+ * @param options block range of the event scan
+ * @returns the rewards accrued and not claimed
+ */
+export const getAccruedLiabilities = async (
+  rewardsDistributorAddress: string,
+  hre: HardhatRuntimeEnvironment,
+  options: ContributorScanOptions,
+): Promise<BigNumber> => {
+  const rewardsDistributor = await hre.ethers.getContractAt<RewardsDistributor>(
+    "RewardsDistributor",
+    rewardsDistributorAddress,
+  );
+  const deployment = Object.values(await hre.deployments.all()).find(
+    ({ address }) => address.toLowerCase() === rewardsDistributorAddress.toLowerCase(),
+  );
+  const fromBlock = options.fromBlock ?? deployment?.receipt?.blockNumber ?? 0;
+  const latestBlock = await hre.ethers.provider.getBlockNumber();
+  const { filters } = rewardsDistributor;
+  const accounts = new Set<string>();
+  for (let start = fromBlock; start <= latestBlock; start += options.blockRange) {
+    const end = Math.min(start + options.blockRange - 1, latestBlock);
+    const [supplied, borrowed] = await Promise.all([
+      rewardsDistributor.queryFilter(filters.DistributedSupplierRewardToken(), start, end),
+      rewardsDistributor.queryFilter(filters.DistributedBorrowerRewardToken(), start, end),
+    ]);
+    supplied.forEach(event => accounts.add(event.args.supplier.toLowerCase()));
+    borrowed.forEach(event => accounts.add(event.args.borrower.toLowerCase()));
+  }
+  // The accrued rewards of contributors include what accrued since their last update
+  const streams = await getContributorStreams(rewardsDistributorAddress, hre, options);
+  let liabilities = streams.reduce((total, { accrued }) => total.add(accrued), BigNumber.from(0));
+  const contributors = new Set(streams.map(({ contributor }) => contributor.toLowerCase()));
+  for (const account of accounts) {
+    if (!contributors.has(account)) {
+      liabilities = liabilities.add(await rewardsDistributor.rewardTokenAccrued(account));
+    }
+  }
+  return liabilities;
+};
+
+const getRewardBudget = async (
+  pool: PoolConfig,
+  rewardConfig: RewardConfig,
+  config: DeploymentConfig,
+  horizonDays: number,
+  hre: HardhatRuntimeEnvironment,
+  options: ContributorScanOptions,
+): Promise<RewardBudget> => {
+  const rewardsDistributor = getRewardsDistributorName(pool, rewardConfig);
+  const token = getTokenConfig(rewardConfig.asset, config.tokensConfig);
+  // Differs from hre.network.name when the deployments of a live network are used on a fork
+  const blocksPerYear = getBlocksPerYear(hre.deployments.getNetworkName());
+  const emissions = getRewardEmissions(rewardConfig, blocksPerYear);
+  const window = await getCampaignWindow(rewardConfig, hre);
+  const campaignDays =
+    window.endBlock === undefined
+      ? undefined
+      : Math.max(0, Math.floor(((window.endBlock - window.currentBlock) * DAYS_PER_YEAR) / blocksPerYear));
+  const deployment = await hre.deployments.getOrNull(rewardsDistributor);
+  if (!deployment) {
+    return { rewardsDistributor, token, emissions, campaignDays, runsDry: false };
+  }
+  const rewardToken = await getUnderlyingToken(rewardConfig.asset, config.tokensConfig);
+  const balance = await rewardToken.balanceOf(deployment.address);
+  const liabilities = await getAccruedLiabilities(deployment.address, hre, options);
+  const runwayDays = getRunwayDays(balance, liabilities, emissions);
+  // Nothing is emitted after the end of the campaign, the balance only has to last until then
+  const requiredDays = Math.min(horizonDays, campaignDays ?? horizonDays);
+  return {
+    rewardsDistributor,
+    token,
+    emissions,
+    balance,
+    liabilities,
+    runwayDays,
+    campaignDays,
+    runsDry: runwayDays !== undefined && !hasCampaignEnded(window) && runwayDays.lt(requiredDays),
+  };
+};
+
+/**
+ * Computes the emissions of every reward config and the runway of the rewards distributors paying them
+ * @param config deployment config of the network hre is connected to
+ * @param horizonDays distributors whose balance is emitted in fewer days run dry
+ * @param options block range of the scan for accounts owed rewards
+ * @returns one budget per reward config
+ */
+export const getRewardBudgets = async (
+  config: DeploymentConfig,
+  horizonDays: number,
+  hre: HardhatRuntimeEnvironment,
+  options: ContributorScanOptions,
+): Promise<RewardBudget[]> => {
+  const budgets: RewardBudget[] = [];
+  for (const pool of config.poolConfig) {
+    for (const rewardConfig of pool.rewards || []) {
+      budgets.push(await getRewardBudget(pool, rewardConfig, config, horizonDays, hre, options));
+    }
+  }
+  return budgets;
+};
@@ -0,0 +1,68 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { CampaignBoundary, RewardConfig } from "./deploymentConfig";
+import { getNetwork } from "./networks";
+
+// Timestamps are converted to blocks with the average block time, so the end block drifts between two runs
+const TIMESTAMP_DRIFT_SECONDS = 3600;
+
+// Blocks of a reward campaign, undefined when the reward config leaves the boundary open
+export type CampaignWindow = {
+  startBlock?: number;
+  endBlock?: number;
+  // Block the window was computed at
+  currentBlock: number;
+  // Blocks an end already set on chain may differ from endBlock by, ends given as timestamps are estimates
+  endTolerance: number;
+};
+
+/**
+ * Converts a campaign boundary to a block number, timestamps are counted in blocks from the given block
+ * @param boundary block or timestamp of the boundary
+ * @param from block the blocks are counted from, with its timestamp
+ * @param blockTime block time of the network in seconds
+ * @returns the first block at or after the boundary
+ */
+export const toCampaignBlock = (
+  boundary: CampaignBoundary,
+  from: { number: number; timestamp: number },
+  blockTime: number,
+): number => {
+  if ("block" in boundary) {
+    return boundary.block;
+  }
+  return from.number + Math.ceil((boundary.timestamp - from.timestamp) / blockTime);
+};
+
+/**
+ * Resolves the campaign window of a reward config against the latest block of the network. Campaigns that ended are
+ * resolved too, see hasCampaignEnded
+ * @param rewardConfig reward config, with an optional start and end
+ * @returns the blocks the campaign starts and ends at
+ */
+export const getCampaignWindow = async (
+  rewardConfig: RewardConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<CampaignWindow> => {
+  const latestBlock = await hre.ethers.provider.getBlock("latest");
+  const { start, end } = rewardConfig;
+  if (!start && !end) {
+    return { currentBlock: latestBlock.number, endTolerance: 0 };
+  }
+  // Differs from hre.network.name when the deployments of a live network are used on a fork
+  const networkName = hre.deployments.getNetworkName();
+  const { blockTime } = getNetwork(networkName);
+  if (!blockTime) {
+    throw new Error(`block time of network ${networkName} is not defined in helpers/networks.ts`);
+  }
+  return {
+    startBlock: start && toCampaignBlock(start, latestBlock, blockTime),
+    endBlock: end && toCampaignBlock(end, latestBlock, blockTime),
+    currentBlock: latestBlock.number,
+    endTolerance: end && "timestamp" in end ? Math.ceil(TIMESTAMP_DRIFT_SECONDS / blockTime) : 0,
+  };
+};
+
+// The rewards distributor refuses ends in the past, nothing can be set for a campaign that ended
+export const hasCampaignEnded = ({ endBlock, currentBlock }: CampaignWindow): boolean =>
+  endBlock !== undefined && endBlock <= currentBlock;
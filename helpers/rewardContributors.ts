@@ -0,0 +1,146 @@
+import { BigNumber } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { RewardsDistributor } from "../typechain";
+import { RewardConfig } from "./deploymentConfig";
+import { toAddress } from "./deploymentUtils";
+import { VipCommand, cmd } from "./governance";
+
+export type ContributorScanOptions = {
+  // First block scanned for contributor events, defaults to the block the rewards distributor was deployed at
+  fromBlock?: number;
+  // Number of blocks requested at once, RPCs cap the range of eth_getLogs
+  blockRange: number;
+};
+
+const DEFAULT_SCAN_OPTIONS: ContributorScanOptions = { blockRange: 5000 };
+
+// Stream of a contributor as found on chain
+export type ContributorStream = {
+  contributor: string;
+  speed: BigNumber;
+  // Reward token owed to the contributor, including what accrued since the last update
+  accrued: BigNumber;
+  // Reward token granted to the contributor with grantRewardToken
+  granted: BigNumber;
+};
+
+// Replays the contributor events of a rewards distributor, the current values are read from the contract
+const getContributorHistory = async (
+  rewardsDistributor: RewardsDistributor,
+  hre: HardhatRuntimeEnvironment,
+  options: ContributorScanOptions,
+): Promise<{ contributors: Set<string>; granted: Map<string, BigNumber> }> => {
+  const deployment = Object.values(await hre.deployments.all()).find(
+    ({ address }) => address.toLowerCase() === rewardsDistributor.address.toLowerCase(),
+  );
+  const fromBlock = options.fromBlock ?? deployment?.receipt?.blockNumber ?? 0;
+  const latestBlock = await hre.ethers.provider.getBlockNumber();
+  const { filters } = rewardsDistributor;
+  const contributors = new Set<string>();
+  const granted = new Map<string, BigNumber>();
+  for (let start = fromBlock; start <= latestBlock; start += options.blockRange) {
+    const end = Math.min(start + options.blockRange - 1, latestBlock);
+    const [speedUpdates, rewardUpdates, grants] = await Promise.all([
+      rewardsDistributor.queryFilter(filters.ContributorRewardTokenSpeedUpdated(), start, end),
+      rewardsDistributor.queryFilter(filters.ContributorRewardsUpdated(), start, end),
+      rewardsDistributor.queryFilter(filters.RewardTokenGranted(), start, end),
+    ]);
+    [...speedUpdates, ...rewardUpdates].forEach(event => contributors.add(event.args.contributor.toLowerCase()));
+    for (const event of grants) {
+      const recipient = event.args.recipient.toLowerCase();
+      contributors.add(recipient);
+      granted.set(recipient, (granted.get(recipient) || BigNumber.from(0)).add(event.args.amount));
+    }
+  }
+  return { contributors, granted };
+};
+
+/**
+ * Lists the contributors of a rewards distributor with their speed, the rewards they accrued and the grants they got
+ * @param rewardsDistributorAddress rewards distributor paying the contributors
+ * @param options block range of the event scan
+ * @returns every account that ever had a contributor speed or a grant
+ */
+export const getContributorStreams = async (
+  rewardsDistributorAddress: string,
+  hre: HardhatRuntimeEnvironment,
+  options: ContributorScanOptions = DEFAULT_SCAN_OPTIONS,
+): Promise<ContributorStream[]> => {
+  const rewardsDistributor = await hre.ethers.getContractAt<RewardsDistributor>(
+    "RewardsDistributor",
+    rewardsDistributorAddress,
+  );
+  const { contributors, granted } = await getContributorHistory(rewardsDistributor, hre, options);
+  const blockNumber = await hre.ethers.provider.getBlockNumber();
+  const streams: ContributorStream[] = [];
+  for (const contributor of contributors) {
+    const speed = await rewardsDistributor.rewardTokenContributorSpeeds(contributor);
+    const lastContributorBlock = await rewardsDistributor.lastContributorBlock(contributor);
+    // Rewards accrue between updates without any event, see updateContributorRewards
+    const pending = speed.isZero()
+      ? BigNumber.from(0)
+      : speed.mul(BigNumber.from(blockNumber).sub(lastContributorBlock));
+    streams.push({
+      contributor: hre.ethers.utils.getAddress(contributor),
+      speed,
+      accrued: (await rewardsDistributor.rewardTokenAccrued(contributor)).add(pending),
+      granted: granted.get(contributor) || BigNumber.from(0),
+    });
+  }
+  return streams;
+};
+
+/**
+ * Builds the commands bringing the contributors of a rewards distributor in line with the reward config: speeds are
+ * set where they differ, contributors missing from the config are stopped and grants are topped up to the configured
+ * total. Reward configs without a contributors section leave the contributors alone. Contributors are compared once
+ * resolved, a named account and its address are the same contributor
+ * @param rewardsDistributorAddress rewards distributor paying the contributors
+ * @param rewardConfig reward config, with its contributors
+ * @param options block range of the event scan
+ * @returns the setContributorRewardTokenSpeed and grantRewardToken commands
+ */
+export const getContributorCommands = async (
+  rewardsDistributorAddress: string,
+  rewardConfig: RewardConfig,
+  hre: HardhatRuntimeEnvironment,
+  options: ContributorScanOptions = DEFAULT_SCAN_OPTIONS,
+): Promise<VipCommand[]> => {
+  if (!rewardConfig.contributors) {
+    return [];
+  }
+  const rewardsDistributor = await hre.ethers.getContractAt<RewardsDistributor>(
+    "RewardsDistributor",
+    rewardsDistributorAddress,
+  );
+  const streams = await getContributorStreams(rewardsDistributorAddress, hre, options);
+  const commands: VipCommand[] = [];
+  const configured = new Set<string>();
+  for (const { address, speed, grant } of rewardConfig.contributors) {
+    const contributor = await toAddress(address, hre);
+    if (configured.has(contributor.toLowerCase())) {
+      throw new Error(
+        `contributor ${address} (${contributor}) of the ${rewardConfig.asset} rewards is defined more than once`,
+      );
+    }
+    configured.add(contributor.toLowerCase());
+    const stream = streams.find(s => s.contributor.toLowerCase() === contributor.toLowerCase());
+    if (!(stream?.speed || BigNumber.from(0)).eq(speed)) {
+      console.log(`Adding a command to set the ${rewardConfig.asset} speed of contributor ${address} to ${speed}`);
+      commands.push(cmd(rewardsDistributor, "setContributorRewardTokenSpeed", [contributor, speed]));
+    }
+    const missingGrant = BigNumber.from(grant || 0).sub(stream?.granted || 0);
+    if (missingGrant.gt(0)) {
+      console.log(`Adding a command to grant ${missingGrant} ${rewardConfig.asset} to contributor ${address}`);
+      commands.push(cmd(rewardsDistributor, "grantRewardToken", [contributor, missingGrant]));
+    }
+  }
+  for (const { contributor, speed } of streams) {
+    if (!speed.isZero() && !configured.has(contributor.toLowerCase())) {
+      console.log(`Adding a command to stop the ${rewardConfig.asset} stream of contributor ${contributor}`);
+      commands.push(cmd(rewardsDistributor, "setContributorRewardTokenSpeed", [contributor, 0]));
+    }
+  }
+  return commands;
+};
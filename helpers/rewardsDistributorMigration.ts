@@ -0,0 +1,147 @@
+import fs from "fs";
+import { Deployment } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import path from "path";
+
+import { DeploymentConfig, getTokenAddress, getTokenConfig } from "./deploymentConfig";
+import { getComptrollerName, getRewardsDistributorName } from "./deploymentUtils";
+
+// A rewards distributor, identified by the comptroller and the reward token it was initialized with
+export type RewardsDistributorIdentity = {
+  name: string;
+  comptroller: string;
+  rewardToken: string;
+};
+
+export type RewardsDistributorRename = {
+  from: string;
+  to: string;
+};
+
+export type RewardsDistributorMigration = {
+  renames: RewardsDistributorRename[];
+  // Deployments that need a rename but match several rewards that cannot be told apart
+  unresolved: { name: string; reason: string }[];
+  // Deployments paying a token in a pool the config has no reward left for, e.g. distributors set up by VIPs
+  untracked: string[];
+};
+
+// hardhat-deploy saves the initialize call of proxies without declaring it in Deployment
+type ProxyDeployment = Deployment & { execute?: { methodName: string; args: string[] } };
+
+const getKey = ({ comptroller, rewardToken }: RewardsDistributorIdentity): string =>
+  `${comptroller.toLowerCase()}/${rewardToken.toLowerCase()}`;
+
+/**
+ * Maps deployed rewards distributors to the rewards of the config. Deployments already named after a reward with the
+ * same comptroller and reward token are kept, the others are renamed when exactly one reward is left for their
+ * comptroller and reward token. Rewards paying the same token in a pool can only be told apart by their name, so the
+ * deployments left with several rewards are reported. Deployments with no reward left are not tracked by the config
+ * and are left alone
+ * @param deployed rewards distributors found in the deployments of the network
+ * @param configured rewards of the config, named with getRewardsDistributorName
+ * @returns the renames and the deployments left alone
+ */
+export const planRewardsDistributorRenames = (
+  deployed: RewardsDistributorIdentity[],
+  configured: RewardsDistributorIdentity[],
+): RewardsDistributorMigration => {
+  const migration: RewardsDistributorMigration = { renames: [], unresolved: [], untracked: [] };
+  for (const key of new Set(deployed.map(getKey))) {
+    const rewards = configured.filter(reward => getKey(reward) === key);
+    const deployments = deployed.filter(deployment => getKey(deployment) === key);
+    const pendingRewards = rewards.filter(reward => !deployments.some(({ name }) => name === reward.name));
+    const pendingDeployments = deployments.filter(deployment => !rewards.some(({ name }) => name === deployment.name));
+    if (pendingDeployments.length === 1 && pendingRewards.length === 1) {
+      migration.renames.push({ from: pendingDeployments[0].name, to: pendingRewards[0].name });
+      continue;
+    }
+    if (pendingRewards.length === 0) {
+      migration.untracked.push(...pendingDeployments.map(({ name }) => name));
+      continue;
+    }
+    const reason = `could be any of ${pendingRewards.map(({ name }) => name).join(", ")}`;
+    pendingDeployments.forEach(({ name }) => migration.unresolved.push({ name, reason }));
+  }
+  return migration;
+};
+
+/**
+ * Compares the rewards distributors deployed on the network hre is connected to with the rewards of the config
+ * @param config deployment config of the network
+ * @returns the renames bringing the deployments in line with the ids of the rewards
+ */
+export const getRewardsDistributorMigration = async (
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<RewardsDistributorMigration> => {
+  const { deployments } = hre;
+  const deployed: RewardsDistributorIdentity[] = [];
+  for (const [name, deployment] of Object.entries<ProxyDeployment>(await deployments.all())) {
+    if (!name.startsWith("RewardsDistributor_") || name.endsWith("_Proxy") || name.endsWith("_Implementation")) {
+      continue;
+    }
+    if (deployment.execute?.methodName !== "initialize") {
+      throw new Error(`${name} has no initialize call to read its comptroller and reward token from`);
+    }
+    const [comptroller, rewardToken] = deployment.execute.args;
+    deployed.push({ name, comptroller, rewardToken });
+  }
+
+  const configured: RewardsDistributorIdentity[] = [];
+  for (const pool of config.poolConfig) {
+    const comptroller = await deployments.getOrNull(getComptrollerName(pool));
+    if (!comptroller) {
+      continue;
+    }
+    for (const reward of pool.rewards || []) {
+      configured.push({
+        name: getRewardsDistributorName(pool, reward),
+        comptroller: comptroller.address,
+        rewardToken: await getTokenAddress(getTokenConfig(reward.asset, config.tokensConfig), deployments),
+      });
+    }
+  }
+  return planRewardsDistributorRenames(deployed, configured);
+};
+
+const renameKey = (file: string, section: string, renames: RewardsDistributorRename[]) => {
+  if (!fs.existsSync(file)) {
+    return;
+  }
+  const exported = JSON.parse(fs.readFileSync(file, "utf-8"));
+  const entries = Object.entries(exported[section]).map(([name, value]) => {
+    const rename = renames.find(({ from }) => name === from || name === `${from}_Proxy`);
+    return [rename ? name.replace(rename.from, rename.to) : name, value];
+  });
+  exported[section] = Object.fromEntries(entries);
+  fs.writeFileSync(file, `${JSON.stringify(exported, null, 2)}\n`);
+};
+
+/**
+ * Renames the deployment files of rewards distributors, with their proxies, and their entries in the exported
+ * deployments of the network. Renames may swap names, so every file is moved aside before taking its new name
+ * @param renames renames returned by getRewardsDistributorMigration
+ */
+export const applyRewardsDistributorRenames = (renames: RewardsDistributorRename[], hre: HardhatRuntimeEnvironment) => {
+  const networkName = hre.deployments.getNetworkName();
+  const dir = path.join(hre.config.paths.deployments, networkName);
+  const moves = renames.flatMap(({ from, to }) =>
+    [from, `${from}_Proxy`]
+      .filter(name => fs.existsSync(path.join(dir, `${name}.json`)))
+      .map(name => ({ source: name, target: name.replace(from, to) })),
+  );
+  for (const { target } of moves) {
+    if (fs.existsSync(path.join(dir, `${target}.json`)) && !moves.some(({ source }) => source === target)) {
+      throw new Error(`Cannot rename to ${target}, the deployment already exists`);
+    }
+  }
+  for (const { source } of moves) {
+    fs.renameSync(path.join(dir, `${source}.json`), path.join(dir, `${source}.json.migrating`));
+  }
+  for (const { source, target } of moves) {
+    fs.renameSync(path.join(dir, `${source}.json.migrating`), path.join(dir, `${target}.json`));
+  }
+  renameKey(path.join(hre.config.paths.deployments, `${networkName}.json`), "contracts", renames);
+  renameKey(path.join(hre.config.paths.deployments, `${networkName}_addresses.json`), "addresses", renames);
+};
@@ -0,0 +1,220 @@
+import { TypedDataDomain, TypedDataField } from "@ethersproject/abstract-signer";
+import { execFileSync } from "child_process";
+import { Wallet, providers, utils } from "ethers";
+import fs from "fs";
+import { ProviderWrapper } from "hardhat/plugins";
+import { EIP1193Provider, HardhatConfig, RequestArguments } from "hardhat/types";
+
+import { SignerConfig } from "./networks";
+
+declare module "hardhat/types/config" {
+  interface HttpNetworkUserConfig {
+    signer?: SignerConfig;
+  }
+
+  interface HttpNetworkConfig {
+    signer?: SignerConfig;
+  }
+}
+
+// Methods that need the accounts of the network, any other request is served without resolving the signer
+const ACCOUNT_METHODS = [
+  "eth_accounts",
+  "eth_requestAccounts",
+  "eth_sign",
+  "personal_sign",
+  "eth_signTypedData_v4",
+  "eth_sendTransaction",
+];
+
+// The terminal is switched to raw mode so that typed characters are not echoed
+const promptPassphrase = (question: string): Promise<string> => {
+  const { stdin, stdout } = process;
+  if (!stdin.isTTY) {
+    throw new Error(`${question} cannot be prompted for, stdin is not a terminal`);
+  }
+  stdout.write(question);
+  stdin.setRawMode(true);
+  stdin.setEncoding("utf-8");
+  stdin.resume();
+  return new Promise((resolve, reject) => {
+    let passphrase = "";
+    const stop = () => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      stdout.write("\n");
+    };
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === "\r" || char === "\n" || char === "\u0004") {
+          stop();
+          resolve(passphrase);
+          return;
+        }
+        if (char === "\u0003") {
+          stop();
+          reject(new Error("The passphrase prompt was interrupted"));
+          return;
+        }
+        passphrase = char === "\u007f" || char === "\b" ? passphrase.slice(0, -1) : passphrase + char;
+      }
+    };
+    stdin.on("data", onData);
+  });
+};
+
+const readPrivateKey = async (signer: SignerConfig, networkName: string): Promise<string | undefined> => {
+  switch (signer.type) {
+    case "env": {
+      const privateKey = process.env[signer.variable];
+      if (!privateKey) {
+        throw new Error(`${networkName} signs with the private key in ${signer.variable}, which is not set`);
+      }
+      return privateKey;
+    }
+    case "keystore": {
+      const keystore = fs.readFileSync(signer.path, "utf-8");
+      const passphrase =
+        (signer.passphraseVariable && process.env[signer.passphraseVariable]) ||
+        (await promptPassphrase(`Passphrase of ${signer.path}: `));
+      return (await Wallet.fromEncryptedJson(keystore, passphrase)).privateKey;
+    }
+    case "1password":
+      // The reference is passed as an argument, not through a shell
+      return execFileSync("op", ["read", signer.reference], { encoding: "utf-8" }).trim();
+    case "none":
+      return undefined;
+  }
+};
+
+// Signs with the key of the configured signer, which is only read when an account is first needed
+class LazySignerProvider extends ProviderWrapper {
+  private signingProvider?: Promise<EIP1193Provider>;
+
+  constructor(provider: EIP1193Provider, private readonly signer: SignerConfig, private readonly networkName: string) {
+    super(provider);
+  }
+
+  public async request(args: RequestArguments): Promise<unknown> {
+    if (!ACCOUNT_METHODS.includes(args.method)) {
+      return this._wrappedProvider.request(args);
+    }
+    if (!this.signingProvider) {
+      this.signingProvider = this.createSigningProvider();
+    }
+    return (await this.signingProvider).request(args);
+  }
+
+  private async createSigningProvider(): Promise<EIP1193Provider> {
+    const privateKey = await readPrivateKey(this.signer, this.networkName);
+    if (!privateKey) {
+      return new ReadOnlyProvider(this._wrappedProvider, this.networkName);
+    }
+    const hexPrivateKey = privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`;
+    return new WalletProvider(this._wrappedProvider, hexPrivateKey);
+  }
+}
+
+// Transaction fields as sent in eth_sendTransaction, quantities are hex strings
+type RpcTransaction = {
+  from?: string;
+  to?: string;
+  data?: string;
+  value?: string;
+  gas?: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  nonce?: string;
+  type?: string;
+};
+
+type TypedData = {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  message: Record<string, unknown>;
+};
+
+// Serves the account of a private key, transactions are completed by the network and signed locally
+class WalletProvider extends ProviderWrapper {
+  private readonly wallet: Wallet;
+
+  constructor(provider: EIP1193Provider, privateKey: string) {
+    super(provider);
+    this.wallet = new Wallet(privateKey, new providers.Web3Provider(provider));
+  }
+
+  public async request(args: RequestArguments): Promise<unknown> {
+    const params = this._getParams(args);
+    switch (args.method) {
+      case "eth_accounts":
+      case "eth_requestAccounts":
+        return [this.wallet.address];
+      case "eth_sign":
+        this.checkAccount(params[0]);
+        return this.wallet.signMessage(utils.arrayify(params[1]));
+      case "personal_sign":
+        this.checkAccount(params[1]);
+        return this.wallet.signMessage(utils.arrayify(params[0]));
+      case "eth_signTypedData_v4": {
+        this.checkAccount(params[0]);
+        const { domain, types, message }: TypedData = typeof params[1] === "string" ? JSON.parse(params[1]) : params[1];
+        // EIP712Domain is derived from the domain by ethers
+        const { EIP712Domain: _, ...messageTypes } = types;
+        return this.wallet._signTypedData(domain, messageTypes, message);
+      }
+      case "eth_sendTransaction":
+        return this.sendTransaction(params[0]);
+      default:
+        return this._wrappedProvider.request(args);
+    }
+  }
+
+  private checkAccount(address: string) {
+    if (address.toLowerCase() !== this.wallet.address.toLowerCase()) {
+      throw new Error(`${address} is not the account of the configured signer, ${this.wallet.address}`);
+    }
+  }
+
+  private async sendTransaction(tx: RpcTransaction): Promise<unknown> {
+    this.checkAccount(tx.from || this.wallet.address);
+    const populated = await this.wallet.populateTransaction({
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gas,
+      gasPrice: tx.gasPrice,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+      nonce: tx.nonce,
+      type: tx.type === undefined ? undefined : Number(tx.type),
+    });
+    const signed = await this.wallet.signTransaction(populated);
+    return this._wrappedProvider.request({ method: "eth_sendRawTransaction", params: [signed] });
+  }
+}
+
+class ReadOnlyProvider extends ProviderWrapper {
+  constructor(provider: EIP1193Provider, private readonly networkName: string) {
+    super(provider);
+  }
+
+  public async request(args: RequestArguments): Promise<unknown> {
+    if (args.method === "eth_accounts" || args.method === "eth_requestAccounts") {
+      return [];
+    }
+    throw new Error(`${this.networkName} is configured without a signer, ${args.method} is not available`);
+  }
+}
+
+/**
+ * Provider extender adding the signer configured for the network, networks without one are left untouched
+ */
+export const extendWithSigner = (provider: EIP1193Provider, config: HardhatConfig, networkName: string) => {
+  const networkConfig = config.networks[networkName];
+  if (!("signer" in networkConfig) || !networkConfig.signer) {
+    return provider;
+  }
+  return new LazySignerProvider(provider, networkConfig.signer, networkName);
+};
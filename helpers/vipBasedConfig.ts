@@ -0,0 +1,368 @@
+import { BigNumber, BigNumberish } from "ethers";
+import { ethers } from "hardhat";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { AccessControlManager, Comptroller, PoolRegistry, RewardsDistributor, VToken } from "../typechain";
+import { makeRole } from "./accessControlAudit";
+import { getRateModelDrifts } from "./configDiff";
+import { AccessControlEntry, DeploymentConfig, PoolConfig, RewardConfig, VTokenConfig } from "./deploymentConfig";
+import {
+  RoutedVipCommand,
+  deployRateModel,
+  getComptrollerName,
+  getRewardsDistributorName,
+  getTimelockRouter,
+  getUnregisteredPools,
+  getUnregisteredRewardsDistributors,
+  getUnregisteredVTokens,
+  getVTokenName,
+  toAddress,
+} from "./deploymentUtils";
+import { ProposalType, VipCommand, cmd } from "./governance";
+import { getMarketListingCommands, setReduceReservesBlockDelta } from "./marketListing";
+import {
+  acceptOwnership,
+  addPool,
+  addRewardsDistributor,
+  getRewardSpeedCommands,
+  setPriceOracle,
+} from "./poolCreation";
+import { getCampaignWindow } from "./rewardCampaigns";
+import { getContributorCommands } from "./rewardContributors";
+
+export type VipBasedConfigOptions = {
+  // Also brings the parameters of the listed pools, markets and rewards in line with the config
+  updateListedMarkets: boolean;
+};
+
+const configureRewards = async (
+  unregisteredRewardDistributors: PoolConfig[],
+  owner: string,
+  hre: HardhatRuntimeEnvironment,
+): Promise<VipCommand[]> => {
+  const commands = await Promise.all(
+    unregisteredRewardDistributors.map(async (pool: PoolConfig) => {
+      const rewards = pool.rewards || [];
+      const poolCommands = await Promise.all(
+        rewards.map(async (rewardConfig: RewardConfig) => {
+          const contractName = getRewardsDistributorName(pool, rewardConfig);
+          const rewardsDistributor = await ethers.getContract<RewardsDistributor>(contractName);
+          return [
+            ...(await acceptOwnership(contractName, owner, hre)),
+            await addRewardsDistributor(rewardsDistributor.address, pool, rewardConfig),
+            ...(await getRewardSpeedCommands(pool, rewardsDistributor.address, rewardConfig, hre)),
+            ...(await getContributorCommands(rewardsDistributor.address, rewardConfig, hre)),
+          ];
+        }),
+      );
+      return poolCommands.flat();
+    }),
+  );
+  return commands.flat();
+};
+
+const addPools = async (
+  unregisteredPools: PoolConfig[],
+  poolsOwner: string,
+  hre: HardhatRuntimeEnvironment,
+): Promise<VipCommand[]> => {
+  const poolRegistry = await ethers.getContract<PoolRegistry>("PoolRegistry");
+  const commands = await Promise.all(
+    unregisteredPools.map(async (pool: PoolConfig) => {
+      const comptroller = await ethers.getContract<Comptroller>(getComptrollerName(pool));
+      return [
+        ...(await acceptOwnership(getComptrollerName(pool), poolsOwner, hre)),
+        await setPriceOracle(comptroller.address, pool),
+        await addPool(poolRegistry.address, comptroller.address, pool),
+      ];
+    }),
+  );
+  return commands.flat();
+};
+
+const addMarkets = async (
+  unregisteredVTokens: PoolConfig[],
+  deploymentConfig: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+) => {
+  const poolCommands = await Promise.all(
+    unregisteredVTokens.map(async (pool: PoolConfig) => {
+      const vTokenCommands = await Promise.all(
+        pool.vtokens.map(async (vTokenConfig: VTokenConfig) => {
+          const { name } = vTokenConfig;
+
+          const vToken = await ethers.getContract(getVTokenName(vTokenConfig));
+
+          console.log("Adding market " + name + " to pool " + pool.name);
+          return getMarketListingCommands(vToken.address, vTokenConfig, deploymentConfig, hre);
+        }),
+      );
+      return vTokenCommands.flat();
+    }),
+  );
+  return poolCommands.flat();
+};
+
+const hasPermission = async (
+  accessControl: AccessControlManager,
+  targetContract: string,
+  method: string,
+  caller: string,
+  hre: HardhatRuntimeEnvironment,
+): Promise<boolean> => {
+  const role = makeRole(hre.network.live, targetContract, method);
+  return accessControl.hasRole(role, caller);
+};
+
+const configureAccessControls = async (
+  deploymentConfig: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<VipCommand[]> => {
+  const { accessControlConfig, preconfiguredAddresses } = deploymentConfig;
+  const accessControlManagerAddress = await toAddress(
+    preconfiguredAddresses.AccessControlManager || "AccessControlManager",
+    hre,
+  );
+  const accessControlManager = await ethers.getContractAt<AccessControlManager>(
+    "AccessControlManager",
+    accessControlManagerAddress,
+  );
+  const commands = await Promise.all(
+    accessControlConfig.map(async (entry: AccessControlEntry) => {
+      const { caller, target, method } = entry;
+      const callerAddress = await toAddress(caller, hre);
+      const targetAddress = await toAddress(target, hre);
+      if (await hasPermission(accessControlManager, targetAddress, method, callerAddress, hre)) {
+        return [];
+      }
+      return [cmd(accessControlManager, "giveCallPermission", [targetAddress, method, callerAddress])];
+    }),
+  );
+  return commands.flat();
+};
+
+const differs = (expected: BigNumberish, actual: BigNumberish): boolean => {
+  return !BigNumber.from(expected).eq(actual);
+};
+
+const updatePoolParameters = async (comptroller: Comptroller, pool: PoolConfig): Promise<VipCommand[]> => {
+  const commands: VipCommand[] = [];
+  const { closeFactor, liquidationIncentive, minLiquidatableCollateral } = pool;
+  if (differs(closeFactor, await comptroller.closeFactorMantissa())) {
+    console.log(`Adding a command to set close factor of Comptroller_${pool.id} to ${closeFactor}`);
+    commands.push(cmd(comptroller, "setCloseFactor", [closeFactor]));
+  }
+  if (differs(liquidationIncentive, await comptroller.liquidationIncentiveMantissa())) {
+    console.log(`Adding a command to set liquidation incentive of Comptroller_${pool.id} to ${liquidationIncentive}`);
+    commands.push(cmd(comptroller, "setLiquidationIncentive", [liquidationIncentive]));
+  }
+  if (differs(minLiquidatableCollateral, await comptroller.minLiquidatableCollateral())) {
+    console.log(
+      `Adding a command to set min liquidatable collateral of Comptroller_${pool.id} to ${minLiquidatableCollateral}`,
+    );
+    commands.push(cmd(comptroller, "setMinLiquidatableCollateral", [minLiquidatableCollateral]));
+  }
+  return commands;
+};
+
+const updateRateModel = async (
+  vToken: VToken,
+  vTokenConfig: VTokenConfig,
+  deploymentConfig: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<VipCommand[]> => {
+  const currentRateModel = await vToken.interestRateModel();
+  const drifts = await getRateModelDrifts(currentRateModel, vTokenConfig, hre);
+  if (drifts.length === 0) {
+    return [];
+  }
+  const { preconfiguredAddresses } = deploymentConfig;
+  const accessControlManagerAddress = await toAddress(
+    preconfiguredAddresses.AccessControlManager || "AccessControlManager",
+    hre,
+  );
+  const rateModelAddress = await deployRateModel(vTokenConfig, accessControlManagerAddress, hre);
+  console.log(`Adding a command to set interest rate model of ${vTokenConfig.name} to ${rateModelAddress}`);
+  return [cmd(vToken, "setInterestRateModel", [rateModelAddress])];
+};
+
+const updateMarketParameters = async (
+  comptroller: Comptroller,
+  vToken: VToken,
+  vTokenConfig: VTokenConfig,
+  deploymentConfig: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<VipCommand[]> => {
+  const commands: VipCommand[] = [];
+  const { name, collateralFactor, liquidationThreshold, reserveFactor, reduceReservesBlockDelta } = vTokenConfig;
+  const market = await comptroller.markets(vToken.address);
+  if (
+    differs(collateralFactor, market.collateralFactorMantissa) ||
+    differs(liquidationThreshold, market.liquidationThresholdMantissa)
+  ) {
+    console.log(`Adding a command to set collateral factor and liquidation threshold of ${name}`);
+    commands.push(cmd(comptroller, "setCollateralFactor", [vToken.address, collateralFactor, liquidationThreshold]));
+  }
+  if (differs(reserveFactor, await vToken.reserveFactorMantissa())) {
+    console.log(`Adding a command to set reserve factor of ${name} to ${reserveFactor}`);
+    commands.push(cmd(vToken, "setReserveFactor", [reserveFactor]));
+  }
+  if (differs(reduceReservesBlockDelta, await vToken.reduceReservesBlockDelta())) {
+    commands.push(await setReduceReservesBlockDelta(vToken.address, vTokenConfig));
+  }
+  return [...commands, ...(await updateRateModel(vToken, vTokenConfig, deploymentConfig, hre))];
+};
+
+const updateMarketCaps = async (
+  comptroller: Comptroller,
+  listedMarkets: { vToken: VToken; vTokenConfig: VTokenConfig }[],
+  pool: PoolConfig,
+): Promise<VipCommand[]> => {
+  const supplyCaps: [string, string][] = [];
+  const borrowCaps: [string, string][] = [];
+  for (const { vToken, vTokenConfig } of listedMarkets) {
+    if (differs(vTokenConfig.supplyCap, await comptroller.supplyCaps(vToken.address))) {
+      supplyCaps.push([vToken.address, vTokenConfig.supplyCap]);
+    }
+    if (differs(vTokenConfig.borrowCap, await comptroller.borrowCaps(vToken.address))) {
+      borrowCaps.push([vToken.address, vTokenConfig.borrowCap]);
+    }
+  }
+  const commands: VipCommand[] = [];
+  if (supplyCaps.length > 0) {
+    console.log(`Adding a command to set supply caps of ${supplyCaps.length} markets in Comptroller_${pool.id}`);
+    commands.push(
+      cmd(comptroller, "setMarketSupplyCaps", [supplyCaps.map(([market]) => market), supplyCaps.map(([, cap]) => cap)]),
+    );
+  }
+  if (borrowCaps.length > 0) {
+    console.log(`Adding a command to set borrow caps of ${borrowCaps.length} markets in Comptroller_${pool.id}`);
+    commands.push(
+      cmd(comptroller, "setMarketBorrowCaps", [borrowCaps.map(([market]) => market), borrowCaps.map(([, cap]) => cap)]),
+    );
+  }
+  return commands;
+};
+
+const updateRewardSpeeds = async (
+  comptroller: Comptroller,
+  pool: PoolConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<VipCommand[]> => {
+  const commands: VipCommand[] = [];
+  const attachedDistributors = (await comptroller.getRewardDistributors()).map((address: string) =>
+    address.toLowerCase(),
+  );
+  for (const rewardConfig of pool.rewards || []) {
+    const deployment = await hre.deployments.getOrNull(getRewardsDistributorName(pool, rewardConfig));
+    if (!deployment || !attachedDistributors.includes(deployment.address.toLowerCase())) {
+      // Distributors that are not attached yet get their speeds set by configureRewards
+      continue;
+    }
+    const rewardsDistributor = await ethers.getContractAt<RewardsDistributor>("RewardsDistributor", deployment.address);
+    const { endBlock, endTolerance } = await getCampaignWindow(rewardConfig, hre);
+    // Ends are set with the speeds, they drift from the config when the end was added or moved in a running campaign
+    const differsFromEnd = (lastRewardingBlock: number) =>
+      endBlock !== undefined && Math.abs(lastRewardingBlock - endBlock) > endTolerance;
+    let changed = false;
+    for (const [marketIdx, asset] of rewardConfig.markets.entries()) {
+      const vTokenConfig = pool.vtokens.find(vtoken => vtoken.asset === asset);
+      const vToken = vTokenConfig && (await hre.deployments.getOrNull(getVTokenName(vTokenConfig)));
+      if (!vToken) {
+        // A market that is not deployed yet has no speeds to compare, there is nothing to update
+        console.log(
+          `Skipping the ${rewardConfig.asset} speeds of ${asset} in ${pool.name}, the market is not deployed`,
+        );
+        continue;
+      }
+      if (
+        differs(
+          rewardConfig.supplySpeeds[marketIdx],
+          await rewardsDistributor.rewardTokenSupplySpeeds(vToken.address),
+        ) ||
+        differs(
+          rewardConfig.borrowSpeeds[marketIdx],
+          await rewardsDistributor.rewardTokenBorrowSpeeds(vToken.address),
+        ) ||
+        differsFromEnd((await rewardsDistributor.rewardTokenSupplyState(vToken.address)).lastRewardingBlock) ||
+        differsFromEnd((await rewardsDistributor.rewardTokenBorrowState(vToken.address)).lastRewardingBlock)
+      ) {
+        changed = true;
+        break;
+      }
+    }
+    if (changed) {
+      commands.push(...(await getRewardSpeedCommands(pool, rewardsDistributor.address, rewardConfig, hre)));
+    }
+    commands.push(...(await getContributorCommands(rewardsDistributor.address, rewardConfig, hre)));
+  }
+  return commands;
+};
+
+// Emits the commands that bring the parameters of already listed markets in line with the deployment config
+const updateListedMarkets = async (
+  deploymentConfig: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<VipCommand[]> => {
+  const commands: VipCommand[] = [];
+  for (const pool of deploymentConfig.poolConfig) {
+    const comptrollerDeployment = await hre.deployments.getOrNull(getComptrollerName(pool));
+    if (!comptrollerDeployment) {
+      continue;
+    }
+    const comptroller = await ethers.getContractAt<Comptroller>("Comptroller", comptrollerDeployment.address);
+    const listedMarkets: { vToken: VToken; vTokenConfig: VTokenConfig }[] = [];
+    for (const vTokenConfig of pool.vtokens) {
+      const vTokenDeployment = await hre.deployments.getOrNull(getVTokenName(vTokenConfig));
+      if (vTokenDeployment && (await comptroller.markets(vTokenDeployment.address)).isListed) {
+        const vToken = await ethers.getContractAt<VToken>("VToken", vTokenDeployment.address);
+        listedMarkets.push({ vToken, vTokenConfig });
+      }
+    }
+    if (listedMarkets.length === 0) {
+      continue;
+    }
+    commands.push(...(await updatePoolParameters(comptroller, pool)));
+    for (const { vToken, vTokenConfig } of listedMarkets) {
+      commands.push(...(await updateMarketParameters(comptroller, vToken, vTokenConfig, deploymentConfig, hre)));
+    }
+    commands.push(...(await updateMarketCaps(comptroller, listedMarkets, pool)));
+    commands.push(...(await updateRewardSpeeds(comptroller, pool, hre)));
+  }
+  return commands;
+};
+
+/**
+ * Builds the commands registering the pools, markets and rewards distributors of the config that are deployed but not
+ * registered yet, and granting the missing permissions
+ * @param deploymentConfig deployment config of the network hre is connected to
+ * @param options updateListedMarkets adds the updates of the listed markets, routed to the fastest timelock allowed
+ * @returns the commands, tagged with the timelock they are proposed through
+ */
+export const getVipBasedConfigCommands = async (
+  deploymentConfig: DeploymentConfig,
+  { updateListedMarkets: withUpdates }: VipBasedConfigOptions,
+  hre: HardhatRuntimeEnvironment,
+): Promise<RoutedVipCommand[]> => {
+  const { deployer } = await hre.getNamedAccounts();
+  const { poolConfig, preconfiguredAddresses } = deploymentConfig;
+
+  const unregisteredPools = await getUnregisteredPools(poolConfig, hre);
+  const unregisteredVTokens = await getUnregisteredVTokens(poolConfig, hre);
+  const unregisteredRewardsDistributors = await getUnregisteredRewardsDistributors(poolConfig, hre);
+  const owner = preconfiguredAddresses.NormalTimelock || deployer;
+  const commands: RoutedVipCommand[] = [
+    ...(await configureAccessControls(deploymentConfig, hre)),
+    ...(await acceptOwnership("PoolRegistry", owner, hre)),
+    ...(await addPools(unregisteredPools, owner, hre)),
+    ...(await addMarkets(unregisteredVTokens, deploymentConfig, hre)),
+    ...(await configureRewards(unregisteredRewardsDistributors, owner, hre)),
+  ].map(command => ({ ...command, proposalType: ProposalType.NORMAL }));
+  if (withUpdates) {
+    // Updates of listed markets do not depend on the other commands, they can go through a faster timelock
+    const route = await getTimelockRouter(deploymentConfig, hre);
+    const updates = await updateListedMarkets(deploymentConfig, hre);
+    commands.push(...updates.map(command => ({ ...command, proposalType: route(command) })));
+  }
+  return commands;
+};
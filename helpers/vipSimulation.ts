@@ -0,0 +1,86 @@
+import { impersonateAccount, setBalance } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers } from "hardhat";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  ConfigDrift,
+  getAccessControlDrifts,
+  getConfigDrifts,
+  getPoolRegistrationDrifts,
+  getRewardsDistributorDrifts,
+} from "./configDiff";
+import { DeploymentConfig } from "./deploymentConfig";
+import { getTimelockName } from "./deploymentUtils";
+import { VipCommand, encodeVipCommand, getVipProposalType } from "./governance";
+
+/**
+ * Resets the hardhat network to a fork of a live network. Pinning the block lets hardhat serve
+ * the state from its local fork cache on subsequent runs
+ * @param jsonRpcUrl archive node, or a local stand-in node, of the forked network
+ * @param blockNumber block to fork at
+ */
+export const forkAt = async (jsonRpcUrl: string, blockNumber: number, hre: HardhatRuntimeEnvironment) => {
+  await hre.network.provider.request({
+    method: "hardhat_reset",
+    params: [{ forking: { jsonRpcUrl, blockNumber } }],
+  });
+};
+
+/**
+ * Resolves the timelock executing a VIP file: the timelock of the proposal type of a proposal file, NormalTimelock
+ * for Safe batches and command arrays
+ * @param filePath path to a proposal file, a Safe transaction batch, or a JSON array of VIP commands
+ * @param config deployment config of the forked network
+ * @returns address of the timelock
+ */
+export const getVipTimelock = (filePath: string, config: DeploymentConfig): string => {
+  const name = getTimelockName(getVipProposalType(filePath));
+  const timelock = config.preconfiguredAddresses[name];
+  if (!timelock) {
+    throw new Error(`${name} is not configured, the commands of ${filePath} cannot be executed`);
+  }
+  return timelock;
+};
+
+/**
+ * Executes the commands of a VIP one by one on behalf of the timelock
+ * @param commands commands in execution order
+ * @param timelock address the commands are sent from, impersonated on the fork
+ */
+export const executeVipCommands = async (commands: VipCommand[], timelock: string) => {
+  await impersonateAccount(timelock);
+  await setBalance(timelock, ethers.utils.parseEther("1000"));
+  const signer = await ethers.getSigner(timelock);
+  for (const [idx, command] of commands.entries()) {
+    console.log(`Executing command #${idx}: ${command.target}.${command.signature}`);
+    try {
+      const tx = await signer.sendTransaction({
+        to: command.target,
+        data: encodeVipCommand(command),
+        value: command.value,
+      });
+      await tx.wait();
+    } catch (error) {
+      throw new Error(`Command #${idx} (${command.target}.${command.signature}) failed: ${error}`);
+    }
+  }
+};
+
+/**
+ * Checks that the forked network reached the state described by the deployment config: pools are registered,
+ * markets are listed with the configured parameters, permissions are granted and distributors are attached
+ * @param config deployment config of the forked network
+ * @param hre hardhat runtime environment, with deployments of the forked network
+ * @returns every post-condition that does not hold
+ */
+export const getVipPostConditionFailures = async (
+  config: DeploymentConfig,
+  hre: HardhatRuntimeEnvironment,
+): Promise<ConfigDrift[]> => {
+  return [
+    ...(await getPoolRegistrationDrifts(config, hre)),
+    ...(await getConfigDrifts(config, hre)),
+    ...(await getRewardsDistributorDrifts(config, hre)),
+    ...(await getAccessControlDrifts(config, hre)),
+  ];
+};
@@ -0,0 +1,104 @@
+import { task, types } from "hardhat/config";
+
+task("acm:audit", "Compares the permissions granted in AccessControlManager with the deployment config")
+  .addOptionalParam("fromBlock", "First block scanned for role events", undefined, types.int)
+  .addOptionalParam("blockRange", "Number of blocks requested at once", 5000, types.int)
+  .addFlag("revoke", "Revoke the extra permissions, or write the VIP revoking them on live networks")
+  .addOptionalParam("description", "Description of the VIP on live networks")
+  .setAction(async ({ fromBlock, blockRange, revoke, description }, hre) => {
+    const { auditAccessControl, getRevokeCommands } = await import("../helpers/accessControlAudit");
+    const { getAddressLabels } = await import("../helpers/calldataDecoder");
+    const { getConfig } = await import("../helpers/deploymentConfig");
+    const { writeVipArtifacts } = await import("../helpers/deploymentUtils");
+    const { executeAsDeployer } = await import("../helpers/governance");
+
+    const deploymentConfig = await getConfig(hre.network.name);
+    const { missing, extra, unknown } = await auditAccessControl(deploymentConfig, hre, { fromBlock, blockRange });
+
+    const labels = await getAddressLabels(deploymentConfig, hre);
+    const label = (address: string) => labels.get(address.toLowerCase()) || address;
+    const toRows = (permissions: typeof missing) =>
+      permissions.map(({ caller, target, method }) => ({ caller: label(caller), target: label(target), method }));
+
+    console.log(`${missing.length} permission(s) of the deployment config are not granted`);
+    if (missing.length > 0) {
+      console.table(toRows(missing));
+    }
+    console.log(`${extra.length} granted permission(s) are not in the deployment config`);
+    if (extra.length > 0) {
+      console.table(toRows(extra));
+    }
+    if (unknown.length > 0) {
+      console.log(`${unknown.length} role(s) could not be traced back to a method of the audited contracts`);
+      console.table(unknown.map(({ role, account }) => ({ role, account: label(account) })));
+    }
+
+    if (!revoke || extra.length === 0) {
+      if (missing.length > 0 || extra.length > 0) {
+        process.exitCode = 1;
+      }
+      return;
+    }
+    const commands = await getRevokeCommands(extra, deploymentConfig, hre);
+    if (commands.length === 0) {
+      console.log("None of the extra permissions can be revoked");
+      process.exitCode = 1;
+      return;
+    }
+    if (!hre.network.live) {
+      await executeAsDeployer(commands, hre);
+      console.log(`Revoked ${commands.length} permission(s)`);
+      return;
+    }
+    console.log("Please propose a VIP with the following commands:");
+    console.log(JSON.stringify(commands));
+    await writeVipArtifacts(
+      commands,
+      "revoke-extra-permissions",
+      description || `Revoke the permissions not in the deployment config on ${hre.network.name}`,
+      deploymentConfig,
+      hre,
+    );
+  });
+
+task("acm:query", "Lists who can call a method of a contract, or what an account can call")
+  .addOptionalParam("target", "Contract, as a deployment name or an address")
+  .addOptionalParam("method", "Signature of the method, e.g. setCollateralFactor(address,uint256,uint256)")
+  .addOptionalParam("account", "Caller, as a preconfigured address name (e.g. CriticalTimelock) or an address")
+  .addOptionalParam("fromBlock", "First block scanned for role events", undefined, types.int)
+  .addOptionalParam("blockRange", "Number of blocks requested at once", 5000, types.int)
+  .setAction(async ({ target, method, account, fromBlock, blockRange }, hre) => {
+    const { getCallers, getPermissionsOf, resolveAddress } = await import("../helpers/accessControlAudit");
+    const { getAddressLabels } = await import("../helpers/calldataDecoder");
+    const { getConfig } = await import("../helpers/deploymentConfig");
+
+    const deploymentConfig = await getConfig(hre.network.name);
+    const labels = await getAddressLabels(deploymentConfig, hre);
+    const label = (address: string) => labels.get(address.toLowerCase()) || address;
+    const options = { fromBlock, blockRange };
+
+    if (account) {
+      const accountAddress = await resolveAddress(account, deploymentConfig, hre);
+      const { permissions, unknown } = await getPermissionsOf(accountAddress, deploymentConfig, hre, options);
+      const targetAddress = target && (await resolveAddress(target, deploymentConfig, hre));
+      const rows = permissions
+        .filter(permission => !targetAddress || permission.target.toLowerCase() === targetAddress.toLowerCase())
+        .filter(permission => !method || permission.method === method)
+        .map(permission => ({ target: label(permission.target), method: permission.method }));
+      console.log(`${label(accountAddress)} can call ${rows.length} method(s)`);
+      console.table(rows);
+      if (unknown.length > 0) {
+        console.log(`${unknown.length} role(s) could not be traced back to a method of the deployed contracts`);
+        console.table(unknown.map(({ role }) => ({ role })));
+      }
+      return;
+    }
+
+    if (!target || !method) {
+      throw new Error("pass --account, or --target and --method");
+    }
+    const targetAddress = await resolveAddress(target, deploymentConfig, hre);
+    const callers = await getCallers(targetAddress, method, deploymentConfig, hre, options);
+    console.log(`${callers.length} account(s) can call ${method} on ${label(targetAddress)}`);
+    console.table(callers.map(({ caller, through }) => ({ caller: label(caller), through })));
+  });
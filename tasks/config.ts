@@ -0,0 +1,66 @@
+import { task } from "hardhat/config";
+
+// Helpers are imported lazily: they depend on the hardhat runtime, which is not available while loading the config
+task("validate-config", "Validates the deployment config of every network").setAction(async (_, hre) => {
+  const { globalConfig } = await import("../helpers/deploymentConfig");
+  const { formatConfigIssues, validateDeploymentConfig } = await import("../helpers/configValidation");
+  const { loadContractSignatures } = await import("../helpers/contractSignatures");
+
+  // Permissions are checked against the methods of the compiled contracts
+  await hre.run("compile", { quiet: true });
+  const signatures = await loadContractSignatures(hre.artifacts);
+
+  let invalidNetworks = 0;
+  for (const [networkName, config] of Object.entries(globalConfig)) {
+    const issues = validateDeploymentConfig(config, signatures);
+    if (issues.length === 0) {
+      console.log(`${networkName}: OK`);
+      continue;
+    }
+    invalidNetworks++;
+    console.log(`${networkName}: ${issues.length} issue(s)`);
+    console.log(formatConfigIssues(issues));
+  }
+
+  if (invalidNetworks > 0) {
+    console.error(`Deployment config is invalid for ${invalidNetworks} network(s)`);
+    process.exitCode = 1;
+  }
+});
+
+task(
+  "config:diff",
+  "Reports every parameter where the deployed contracts disagree with the deployment config",
+).setAction(async (_, hre) => {
+  const { getConfig } = await import("../helpers/deploymentConfig");
+  const { getConfigDrifts } = await import("../helpers/configDiff");
+
+  const drifts = await getConfigDrifts(await getConfig(hre.network.name), hre);
+  if (drifts.length === 0) {
+    console.log(`Deployed contracts on ${hre.network.name} match the deployment config`);
+    return;
+  }
+
+  console.log(`Found ${drifts.length} difference(s) between ${hre.network.name} and the deployment config:`);
+  console.table(drifts);
+  process.exitCode = 1;
+});
+
+task("config:import", "Prints the deployment config of a pool registered on chain, ready to paste in helpers/config")
+  .addParam("comptroller", "Address of the comptroller of the pool")
+  .setAction(async ({ comptroller }, hre) => {
+    const { getConfig } = await import("../helpers/deploymentConfig");
+    const { importPoolConfig } = await import("../helpers/poolImport");
+
+    const { poolConfig, tokensConfig } = await importPoolConfig(comptroller, await getConfig(hre.network.name), hre);
+    if (tokensConfig.length > 0) {
+      console.log(`${tokensConfig.length} token(s) to add to tokensConfig:`);
+      console.log(JSON.stringify(tokensConfig, null, 2));
+    }
+    console.log("Pool to add to poolConfig:");
+    console.log(JSON.stringify(poolConfig, null, 2));
+    console.log(
+      "initialSupply and vTokenReceiver are only used when a market is added and are not kept on chain, " +
+        "they are set to 0 and VTreasury",
+    );
+  });
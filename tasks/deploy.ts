@@ -0,0 +1,39 @@
+import { task } from "hardhat/config";
+
+task("deploy")
+  .addFlag("plan", "Runs the deploy scripts on a local fork of the network and reports what they would deploy and send")
+  .addOptionalParam("planRpc", "Node forking the network the plan runs on", "http://127.0.0.1:8545")
+  .setAction(async ({ planRpc, ...args }, hre, runSuper) => {
+    if (!args.plan) {
+      return runSuper(args);
+    }
+    const { printDeploymentPlan, startDeploymentPlan } = await import("../helpers/deploymentPlan");
+    const { plan, stop } = await startDeploymentPlan(hre, planRpc);
+    try {
+      await runSuper(args);
+    } finally {
+      stop();
+    }
+    await printDeploymentPlan(plan, hre);
+  });
+
+task("verify-deployment", "Checks a finished deployment end to end against the deployment config").setAction(
+  async (_, hre) => {
+    const { getConfig } = await import("../helpers/deploymentConfig");
+    const { verifyDeployment } = await import("../helpers/deploymentVerification");
+
+    const results = await verifyDeployment(await getConfig(hre.network.name), hre);
+    for (const { check, failures } of results) {
+      console.log(`${failures.length === 0 ? "PASS" : "FAIL"} ${check}`);
+      if (failures.length > 0) {
+        console.table(failures);
+      }
+    }
+
+    const failed = results.filter(({ failures }) => failures.length > 0).length;
+    console.log(`${results.length - failed} check(s) passed, ${failed} failed`);
+    if (failed > 0) {
+      process.exitCode = 1;
+    }
+  },
+);
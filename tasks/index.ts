@@ -0,0 +1,7 @@
+import "./acm";
+import "./config";
+import "./deploy";
+import "./market";
+import "./pool";
+import "./rewards";
+import "./vip";
@@ -0,0 +1,72 @@
+import { task } from "hardhat/config";
+
+// Fields of a market that can be set from the command line, they take precedence over the --config file
+const MARKET_PARAMS: [string, string][] = [
+  ["name", "Name of the VToken"],
+  ["symbol", "Symbol of the VToken, the market is deployed as VToken_<symbol>"],
+  ["asset", "Symbol of the underlying token, as defined in the tokens of the deployment config"],
+  ["rateModel", "Interest rate model, InterestRateModels.WhitePaper or InterestRateModels.JumpRate"],
+  ["baseRatePerYear", 'Base rate per year, e.g. "2% APR" or 0.02e18'],
+  ["multiplierPerYear", 'Multiplier per year, e.g. "10% APR"'],
+  ["jumpMultiplierPerYear", "Jump multiplier per year of the jump rate model"],
+  ["kink", 'Utilization rate the jump multiplier applies from, e.g. "0.8 kink"'],
+  ["collateralFactor", "Collateral factor, e.g. 50%"],
+  ["liquidationThreshold", "Liquidation threshold, e.g. 60%"],
+  ["reserveFactor", "Reserve factor, e.g. 10%"],
+  ["initialSupply", "Amount of underlying supplied when the market is added"],
+  ["supplyCap", 'Supply cap in underlying, e.g. "5500 WETH"'],
+  ["borrowCap", "Borrow cap in underlying"],
+  ["vTokenReceiver", "Receiver of the VTokens minted for the initial supply"],
+  ["reduceReservesBlockDelta", "Blocks between two reductions of the reserves"],
+];
+
+MARKET_PARAMS.reduce(
+  (definition, [name, description]) => definition.addOptionalParam(name, description),
+  task("market:list", "Deploys a market and lists it in its pool, or writes the VIP listing it on live networks")
+    .addParam("pool", "Id of the pool in the deployment config, the market is added to Comptroller_<pool>")
+    .addOptionalParam("config", "Path to a JSON file with the market, written like the markets of helpers/config")
+    .addOptionalParam("description", "Description of the VIP on live networks"),
+).setAction(async ({ pool: poolId, config: configPath, description, kink, ...params }, hre) => {
+  const { getConfig } = await import("../helpers/deploymentConfig");
+  const { deployVToken, getComptrollerName, getVTokenName, writeVipArtifacts } = await import(
+    "../helpers/deploymentUtils"
+  );
+  const { executeAsDeployer } = await import("../helpers/governance");
+  const { faucetInitialSupply, getMarketListingCommands, resolveMarketConfig } = await import(
+    "../helpers/marketListing"
+  );
+
+  const deploymentConfig = await getConfig(hre.network.name);
+  const vTokenConfig = resolveMarketConfig(poolId, configPath, { ...params, kink_: kink }, deploymentConfig);
+  const { name, symbol } = vTokenConfig;
+
+  const comptroller = await hre.ethers.getContractAt(
+    "Comptroller",
+    (
+      await hre.deployments.get(getComptrollerName({ id: poolId }))
+    ).address,
+  );
+  const existing = await hre.deployments.getOrNull(getVTokenName(vTokenConfig));
+  if (existing && (await comptroller.markets(existing.address)).isListed) {
+    throw new Error(`VToken_${symbol} is already listed in Comptroller_${poolId}`);
+  }
+
+  const vTokenAddress = await deployVToken(vTokenConfig, comptroller.address, deploymentConfig, hre);
+  const commands = await getMarketListingCommands(vTokenAddress, vTokenConfig, deploymentConfig, hre);
+  if (!hre.network.live) {
+    await faucetInitialSupply([vTokenConfig], deploymentConfig, hre);
+    await executeAsDeployer(commands, hre);
+    console.log(`${name} is listed in Comptroller_${poolId}`);
+    return;
+  }
+  console.log("Please propose a VIP with the following commands:");
+  console.log(JSON.stringify(commands));
+  const poolName = deploymentConfig.poolConfig.find(pool => pool.id === poolId)?.name;
+  await writeVipArtifacts(
+    commands,
+    `list-market-${symbol}`,
+    description || `List ${name} in the ${poolName} pool on ${hre.network.name}`,
+    deploymentConfig,
+    hre,
+  );
+});
@@ -0,0 +1,67 @@
+import { task } from "hardhat/config";
+
+task(
+  "pool:create",
+  "Deploys a pool of the deployment config and registers it, or writes the VIP creating it on live networks",
+)
+  .addParam("pool", "Id of the pool in the deployment config, the pool is deployed as Comptroller_<pool>")
+  .addOptionalParam("description", "Description of the VIP on live networks")
+  .setAction(async ({ pool: poolId, description }, hre) => {
+    const { getConfig } = await import("../helpers/deploymentConfig");
+    const {
+      deployComptroller,
+      deployRewardsDistributors,
+      deployVToken,
+      getComptrollerName,
+      getRewardsDistributorName,
+      transfer2StepOwnerships,
+      writeVipArtifacts,
+    } = await import("../helpers/deploymentUtils");
+    const { executeAsDeployer } = await import("../helpers/governance");
+    const { faucetInitialSupply } = await import("../helpers/marketListing");
+    const { getPoolCreationCommands } = await import("../helpers/poolCreation");
+
+    const deploymentConfig = await getConfig(hre.network.name);
+    const pool = deploymentConfig.poolConfig.find(p => p.id === poolId);
+    if (!pool) {
+      throw new Error(`pool ${poolId} is not defined in the deployment config`);
+    }
+
+    const poolRegistry = await hre.ethers.getContract("PoolRegistry");
+    const existing = await hre.deployments.getOrNull(getComptrollerName(pool));
+    if (
+      existing &&
+      (await poolRegistry.getPoolByComptroller(existing.address)).comptroller !== hre.ethers.constants.AddressZero
+    ) {
+      throw new Error(`Comptroller_${poolId} is already registered in PoolRegistry`);
+    }
+
+    const comptrollerAddress = await deployComptroller(pool, deploymentConfig, hre);
+    for (const vTokenConfig of pool.vtokens) {
+      await deployVToken(vTokenConfig, comptrollerAddress, deploymentConfig, hre);
+    }
+    await deployRewardsDistributors(pool, deploymentConfig, hre);
+
+    const { NormalTimelock } = deploymentConfig.preconfiguredAddresses;
+    if (hre.network.live && NormalTimelock) {
+      const rewardsDistributors = (pool.rewards || []).map(reward => getRewardsDistributorName(pool, reward));
+      await transfer2StepOwnerships([getComptrollerName(pool), ...rewardsDistributors], NormalTimelock);
+    }
+
+    const commands = await getPoolCreationCommands(pool, deploymentConfig, hre);
+    if (!hre.network.live) {
+      await faucetInitialSupply(pool.vtokens, deploymentConfig, hre);
+      await executeAsDeployer(commands, hre);
+      console.log(`${pool.name} is registered as Comptroller_${poolId}`);
+      return;
+    }
+    console.log("Please propose a VIP with the following commands:");
+    console.log(JSON.stringify(commands));
+    await writeVipArtifacts(
+      commands,
+      `create-pool-${poolId}`,
+      description || `Create the ${pool.name} pool on ${hre.network.name}`,
+      deploymentConfig,
+      hre,
+    );
+  });
@@ -0,0 +1,107 @@
+import { task, types } from "hardhat/config";
+
+task("rewards:budget", "Reports the emissions of every reward config and the runway of its rewards distributor")
+  .addOptionalParam("horizon", "Distributors running dry in fewer days are flagged", 30, types.int)
+  .addOptionalParam("fromBlock", "First block scanned for accounts owed rewards", undefined, types.int)
+  .addOptionalParam("blockRange", "Number of blocks requested at once", 5000, types.int)
+  .setAction(async ({ horizon, fromBlock, blockRange }, hre) => {
+    const { formatTokenAmount } = await import("../helpers/configUnits");
+    const { getConfig } = await import("../helpers/deploymentConfig");
+    const { getRewardBudgets } = await import("../helpers/rewardBudget");
+
+    const budgets = await getRewardBudgets(await getConfig(hre.network.name), horizon, hre, { fromBlock, blockRange });
+    console.table(
+      budgets.map(
+        ({ rewardsDistributor, token, emissions, balance, liabilities, runwayDays, campaignDays, runsDry }) => ({
+          rewardsDistributor,
+          perDay: formatTokenAmount(emissions.perDay.toString(), token),
+          perMonth: formatTokenAmount(emissions.perMonth.toString(), token),
+          perYear: formatTokenAmount(emissions.perYear.toString(), token),
+          balance: balance ? formatTokenAmount(balance.toString(), token) : "not deployed",
+          owed: liabilities ? formatTokenAmount(liabilities.toString(), token) : "-",
+          runwayDays: runwayDays?.toString() ?? "-",
+          campaignDays: campaignDays ?? "-",
+          runsDry,
+        }),
+      ),
+    );
+
+    const dry = budgets.filter(({ runsDry }) => runsDry);
+    if (dry.length > 0) {
+      console.log(`${dry.length} rewards distributor(s) run dry within ${horizon} days:`);
+      dry.forEach(({ rewardsDistributor, runwayDays }) => console.log(`  ${rewardsDistributor}: ${runwayDays} days`));
+      process.exitCode = 1;
+    }
+  });
+
+task("rewards:contributors", "Lists the contributors of every rewards distributor with their speed and accrued rewards")
+  .addOptionalParam("fromBlock", "First block scanned for contributor events", undefined, types.int)
+  .addOptionalParam("blockRange", "Number of blocks requested at once", 5000, types.int)
+  .setAction(async ({ fromBlock, blockRange }, hre) => {
+    const { getAddressLabels } = await import("../helpers/calldataDecoder");
+    const { formatTokenAmount } = await import("../helpers/configUnits");
+    const { getConfig, getTokenConfig } = await import("../helpers/deploymentConfig");
+    const { getRewardsDistributorName } = await import("../helpers/deploymentUtils");
+    const { getContributorStreams } = await import("../helpers/rewardContributors");
+
+    const deploymentConfig = await getConfig(hre.network.name);
+    const labels = await getAddressLabels(deploymentConfig, hre);
+    const label = (address: string) => labels.get(address.toLowerCase()) || address;
+
+    for (const pool of deploymentConfig.poolConfig) {
+      for (const rewardConfig of pool.rewards || []) {
+        const rewardsDistributor = getRewardsDistributorName(pool, rewardConfig);
+        const deployment = await hre.deployments.getOrNull(rewardsDistributor);
+        if (!deployment) {
+          continue;
+        }
+        const token = getTokenConfig(rewardConfig.asset, deploymentConfig.tokensConfig);
+        const streams = await getContributorStreams(deployment.address, hre, { fromBlock, blockRange });
+        console.log(`${rewardsDistributor}: ${streams.length} contributor(s)`);
+        if (streams.length === 0) {
+          continue;
+        }
+        console.table(
+          streams.map(({ contributor, speed, accrued, granted }) => ({
+            contributor: label(contributor),
+            speedPerBlock: formatTokenAmount(speed.toString(), token),
+            accrued: formatTokenAmount(accrued.toString(), token),
+            granted: formatTokenAmount(granted.toString(), token),
+          })),
+        );
+      }
+    }
+  });
+
+task("rewards:migrate-names", "Renames the deployments of the rewards distributors after the ids of their rewards")
+  .addFlag("dryRun", "Only report the renames")
+  .setAction(async ({ dryRun }, hre) => {
+    const { getConfig } = await import("../helpers/deploymentConfig");
+    const { applyRewardsDistributorRenames, getRewardsDistributorMigration } = await import(
+      "../helpers/rewardsDistributorMigration"
+    );
+
+    const { renames, unresolved, untracked } = await getRewardsDistributorMigration(
+      await getConfig(hre.network.name),
+      hre,
+    );
+    if (renames.length === 0) {
+      console.log("Every rewards distributor is named after its reward");
+    } else {
+      console.table(renames);
+      if (!dryRun) {
+        applyRewardsDistributorRenames(renames, hre);
+        console.log(`Renamed ${renames.length} rewards distributor(s)`);
+      }
+    }
+    if (untracked.length > 0) {
+      console.log(
+        `Left ${untracked.length} rewards distributor(s) without a reward in the config: ${untracked.join(", ")}`,
+      );
+    }
+    if (unresolved.length > 0) {
+      console.log(`${unresolved.length} rewards distributor(s) match several rewards, set the ids of their rewards:`);
+      unresolved.forEach(({ name, reason }) => console.log(`  ${name}: ${reason}`));
+      process.exitCode = 1;
+    }
+  });
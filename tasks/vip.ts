@@ -0,0 +1,120 @@
+import { providers } from "ethers";
+import { task, types } from "hardhat/config";
+import { HttpNetworkConfig } from "hardhat/types";
+
+task("vip:simulate", "Executes the commands of a VIP on a fork and checks the resulting state against the config")
+  .addVariadicPositionalParam(
+    "commands",
+    "Paths to the JSON files with the VIP commands, e.g. the proposals of every timelock, executed in the given order",
+  )
+  .addOptionalParam("block", "Block number to fork at, defaults to the latest block", undefined, types.int)
+  .addOptionalParam("rpc", "Archive node or local stand-in node of the forked network", undefined, types.string)
+  .setAction(async ({ commands, block, rpc }, hre) => {
+    const { getConfig } = await import("../helpers/deploymentConfig");
+    const { loadVipCommands } = await import("../helpers/governance");
+    const { executeVipCommands, forkAt, getVipPostConditionFailures, getVipTimelock } = await import(
+      "../helpers/vipSimulation"
+    );
+
+    const forkedNetwork = hre.deployments.getNetworkName();
+    if (hre.network.name !== "hardhat" || forkedNetwork === "hardhat") {
+      throw new Error(
+        "vip:simulate runs on the hardhat network with the deployments of the forked network, " +
+          "e.g. HARDHAT_DEPLOY_FORK=bscmainnet npx hardhat vip:simulate <commands> --network hardhat",
+      );
+    }
+    const forkedNetworkConfig = hre.config.networks[forkedNetwork] as HttpNetworkConfig;
+    // The url of the network already defaults to its archive node, see helpers/networks.ts
+    const jsonRpcUrl = rpc || forkedNetworkConfig.url;
+    const blockNumber = block ?? (await new providers.JsonRpcProvider(jsonRpcUrl).getBlockNumber());
+    console.log(`Forking ${forkedNetwork} at block ${blockNumber}`);
+    await forkAt(jsonRpcUrl, blockNumber, hre);
+
+    const config = await getConfig(forkedNetwork);
+    // Each proposal is executed by the timelock it is queued in
+    for (const filePath of commands) {
+      const timelock = getVipTimelock(filePath, config);
+      console.log(`Executing ${filePath} as ${timelock}`);
+      await executeVipCommands(loadVipCommands(filePath), timelock);
+    }
+
+    const failures = await getVipPostConditionFailures(config, hre);
+    if (failures.length === 0) {
+      console.log(`All commands executed and ${forkedNetwork} matches the deployment config`);
+      return;
+    }
+    console.log(`${failures.length} post-condition(s) do not hold after executing the VIP:`);
+    console.table(failures);
+    process.exitCode = 1;
+  });
+
+task("vip:decode", "Decodes a proposal file and checks that its calldata and hash match its commands")
+  .addPositionalParam("proposal", "Path to the proposal file")
+  .setAction(async ({ proposal: proposalPath }, hre) => {
+    const { getConfig } = await import("../helpers/deploymentConfig");
+    const { decodeProposal, readProposal } = await import("../helpers/governance");
+
+    const proposal = readProposal(proposalPath);
+    const commands = decodeProposal(proposal);
+
+    // Known addresses are labelled so the commands can be reviewed against the deployment config
+    const { preconfiguredAddresses } = await getConfig(hre.deployments.getNetworkName());
+    const labels = new Map<string, string>();
+    for (const [name, deployment] of Object.entries(await hre.deployments.all())) {
+      labels.set(deployment.address.toLowerCase(), name);
+    }
+    for (const [name, address] of Object.entries(preconfiguredAddresses)) {
+      labels.set(address.toLowerCase(), name);
+    }
+    const label = (value: unknown): string => {
+      const name = typeof value === "string" ? labels.get(value.toLowerCase()) : undefined;
+      return name ? `${value} (${name})` : JSON.stringify(value);
+    };
+
+    console.log(`Proposal ${proposal.proposalHash} to ${label(proposal.governorBravo)}`);
+    console.log(`Description: ${proposal.description}`);
+    commands.forEach((command, idx) => {
+      console.log(`#${idx} ${label(command.target)}.${command.signature}, value ${command.value}`);
+      command.params.forEach((param: unknown) => {
+        const values = Array.isArray(param) ? param.map(label).join(", ") : label(param);
+        console.log(`  ${values}`);
+      });
+    });
+
+    if (proposal.governorBravo.toLowerCase() !== preconfiguredAddresses.GovernorBravo?.toLowerCase()) {
+      console.error(`The proposal is not addressed to GovernorBravo of ${hre.network.name}`);
+      process.exitCode = 1;
+    }
+  });
+
+task("decode", "Explains a proposal file, a transaction of the node or raw calldata in plain text")
+  .addPositionalParam("input", "Path to a proposal or commands file, a transaction hash, or calldata")
+  .addOptionalParam("to", "Target of the raw calldata, labelled and used to read the token of amounts")
+  .setAction(async ({ input, to }, hre) => {
+    const fs = await import("fs");
+    const { explainCalls } = await import("../helpers/calldataDecoder");
+    const { getConfig } = await import("../helpers/deploymentConfig");
+    const { encodeVipCommand, loadVipCommands } = await import("../helpers/governance");
+
+    let calls: { target?: string; data: string; value?: string }[];
+    if (fs.existsSync(input)) {
+      calls = loadVipCommands(input).map(command => ({
+        target: command.target,
+        data: encodeVipCommand(command),
+        value: command.value.toString(),
+      }));
+    } else if (hre.ethers.utils.isHexString(input, 32)) {
+      const transaction = await hre.ethers.provider.getTransaction(input);
+      if (!transaction) {
+        throw new Error(`transaction ${input} is not known to ${hre.network.name}`);
+      }
+      calls = [{ target: transaction.to, data: transaction.data, value: transaction.value.toString() }];
+    } else if (hre.ethers.utils.isHexString(input) && hre.ethers.utils.hexDataLength(input) >= 4) {
+      calls = [{ target: to, data: input }];
+    } else {
+      throw new Error(`${input} is neither a file, a transaction hash nor calldata`);
+    }
+
+    const lines = await explainCalls(calls, await getConfig(hre.deployments.getNetworkName()), hre);
+    lines.forEach(line => console.log(line));
+  });
@@ -0,0 +1,128 @@
+import chai from "chai";
+import hre, { deployments, ethers } from "hardhat";
+
+import {
+  Permission,
+  buildRoleDictionary,
+  getAccessControlledMethods,
+  getCallers,
+  getPermissionsOf,
+  getRevocablePermissions,
+  makeRole,
+} from "../../../helpers/accessControlAudit";
+import { globalConfig } from "../../../helpers/deploymentConfig";
+import { AccessControlManager } from "../../../typechain";
+
+const { expect } = chai;
+
+describe("Access control audit", () => {
+  const ANY_CONTRACT = ethers.constants.AddressZero;
+  const comptroller = "0x0000000000000000000000000000000000000c01";
+  const oldDeployer = "0x0000000000000000000000000000000000000d01";
+  const setCollateralFactor = "setCollateralFactor(address,uint256,uint256)";
+  // Checked by the core pool Comptroller, which shares AccessControlManager with the isolated pools on live networks
+  const setVenusSpeeds = "_setVenusSpeeds(address[],uint256[],uint256[])";
+
+  it("reads the methods checked by the contracts of this repo", async () => {
+    const methods = await getAccessControlledMethods(hre);
+    expect(methods).to.include(setCollateralFactor);
+    expect(methods).to.include("addMarket(AddMarketInput)");
+    expect(methods).to.include("updateJumpRateModel(uint256,uint256,uint256,uint256)");
+    expect(methods).to.not.include(setVenusSpeeds);
+  });
+
+  it("traces the roles of the audited targets and methods back to their permission", () => {
+    const roles = buildRoleDictionary([comptroller, ANY_CONTRACT], new Set([setCollateralFactor]));
+    expect(roles.get(makeRole(false, comptroller, setCollateralFactor))).to.deep.equal({
+      target: comptroller,
+      method: setCollateralFactor,
+    });
+    // Both encodings of the wildcard role are known
+    expect(roles.get(makeRole(false, ANY_CONTRACT, setCollateralFactor))?.target).to.equal(ANY_CONTRACT);
+    expect(roles.get(makeRole(true, ANY_CONTRACT, setCollateralFactor))?.target).to.equal(ANY_CONTRACT);
+    expect(roles.has(makeRole(true, ANY_CONTRACT, setVenusSpeeds))).to.equal(false);
+  });
+
+  it("never revokes wildcard permissions on methods of other contracts", () => {
+    const permissions: Permission[] = [
+      { caller: oldDeployer, target: comptroller, method: setCollateralFactor },
+      { caller: oldDeployer, target: ANY_CONTRACT, method: setCollateralFactor },
+      { caller: oldDeployer, target: ANY_CONTRACT, method: setVenusSpeeds },
+      { caller: oldDeployer, target: comptroller, method: setVenusSpeeds },
+    ];
+    const { revocable, kept } = getRevocablePermissions(permissions, new Set([setCollateralFactor]));
+    expect(revocable).to.deep.equal([permissions[0], permissions[1], permissions[3]]);
+    expect(kept).to.deep.equal([permissions[2]]);
+  });
+
+  describe("acm:query", () => {
+    const config = globalConfig.hardhat;
+    const options = { blockRange: 10000 };
+    const unknownContract = "0x0000000000000000000000000000000000000c02";
+    let pool1: string;
+    let specificCaller: string;
+    let anyContractCaller: string;
+    let revokedCaller: string;
+
+    // Callers of the test accounts only, the local deployment grants permissions of its own
+    const getTestCallers = async (target: string, method: string) => {
+      const testAccounts = [specificCaller, anyContractCaller, revokedCaller];
+      const callers = await getCallers(target, method, config, hre, options);
+      return callers.filter(({ caller }) => testAccounts.includes(caller));
+    };
+
+    before(async () => {
+      await deployments.fixture();
+      const { deployer } = await hre.getNamedAccounts();
+      // Accounts after the named ones, which the local deployment may grant permissions to
+      const accounts = (await ethers.getSigners()).slice(5).map(({ address }) => address);
+      [specificCaller, anyContractCaller, revokedCaller] = accounts;
+      pool1 = (await deployments.get("Comptroller_Pool1")).address;
+
+      const accessControlManager = await ethers.getContract<AccessControlManager>("AccessControlManager", deployer);
+      await accessControlManager.giveCallPermission(pool1, setCollateralFactor, specificCaller);
+      await accessControlManager.giveCallPermission(ANY_CONTRACT, setCollateralFactor, anyContractCaller);
+      await accessControlManager.giveCallPermission(pool1, setCollateralFactor, revokedCaller);
+      await accessControlManager.giveCallPermission(ANY_CONTRACT, setCollateralFactor, revokedCaller);
+      await accessControlManager.revokeCallPermission(pool1, setCollateralFactor, revokedCaller);
+      await accessControlManager.revokeCallPermission(ANY_CONTRACT, setCollateralFactor, revokedCaller);
+      // Granted on a contract that is not part of the deployment config
+      await accessControlManager.giveCallPermission(unknownContract, setCollateralFactor, specificCaller);
+    });
+
+    it("lists the callers of a method through the contract and the wildcard roles", async () => {
+      expect(await getTestCallers(pool1, setCollateralFactor)).to.deep.equal([
+        { caller: specificCaller, through: "contract role" },
+        { caller: anyContractCaller, through: "any contract role" },
+      ]);
+    });
+
+    it("lists only the wildcard callers on another contract", async () => {
+      const pool2 = (await deployments.get("Comptroller_Pool2")).address;
+      expect(await getTestCallers(pool2, setCollateralFactor)).to.deep.equal([
+        { caller: anyContractCaller, through: "any contract role" },
+      ]);
+    });
+
+    it("lists the permissions of an account and the roles it holds on other contracts", async () => {
+      expect(await getPermissionsOf(specificCaller, config, hre, options)).to.deep.equal({
+        permissions: [{ target: pool1, method: setCollateralFactor, caller: specificCaller }],
+        unknown: [{ role: makeRole(false, unknownContract, setCollateralFactor), account: specificCaller }],
+      });
+    });
+
+    it("lists the wildcard permissions of an account", async () => {
+      expect(await getPermissionsOf(anyContractCaller, config, hre, options)).to.deep.equal({
+        permissions: [{ target: ANY_CONTRACT, method: setCollateralFactor, caller: anyContractCaller }],
+        unknown: [],
+      });
+    });
+
+    it("leaves out the revoked permissions", async () => {
+      expect(await getPermissionsOf(revokedCaller, config, hre, options)).to.deep.equal({
+        permissions: [],
+        unknown: [],
+      });
+    });
+  });
+});
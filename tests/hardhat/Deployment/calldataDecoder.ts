@@ -0,0 +1,117 @@
+import { smock } from "@defi-wonderland/smock";
+import chai from "chai";
+import { Contract, utils } from "ethers";
+import fs from "fs";
+import hre, { ethers, run } from "hardhat";
+import os from "os";
+import path from "path";
+
+import { explainCalls } from "../../../helpers/calldataDecoder";
+import { globalConfig } from "../../../helpers/deploymentConfig";
+import { Proposal, buildProposal, cmd, writeProposal } from "../../../helpers/governance";
+import { convertToUnit } from "../../../helpers/utils";
+import { Comptroller, MockToken, MockToken__factory, PoolRegistry, VToken } from "../../../typechain";
+
+const { expect } = chai;
+
+const GOVERNOR_BRAVO = utils.getAddress("0x2d56dc077072b53571b8252008c60e945108c75a");
+const COMPTROLLER = utils.getAddress("0x94c1495cd4c557f1560cbd68eab0d197e6291571");
+const POOL_REGISTRY = utils.getAddress("0x9f7b01a536acb9b5ab0e05b2ec8a2c8b88a1e6a4");
+const VTREASURY = utils.getAddress("0x8b293600c50d6fbdc6ed4251cc75ece29880276f");
+const NORMAL_TIMELOCK = utils.getAddress("0xce10739590001705f7ff231611ba4a48b2820327");
+
+describe("Calldata decoder", () => {
+  let token: MockToken;
+  let proposal: Proposal;
+  let lines: string[];
+
+  // The proposal listing a market, as written by market:list on live networks
+  before(async () => {
+    const MockToken = await ethers.getContractFactory<MockToken__factory>("MockToken");
+    token = await MockToken.deploy("Wrapped BNB", "WBNB", 18);
+    const vToken = await smock.fake<VToken>("VToken");
+    vToken.underlying.returns(token.address);
+
+    const treasury = new Contract(VTREASURY, [
+      "function withdrawTreasuryToken(address tokenAddress, uint256 withdrawAmount, address withdrawAddress)",
+    ]);
+    const comptroller = await ethers.getContractAt<Comptroller>("Comptroller", COMPTROLLER);
+    const poolRegistry = await ethers.getContractAt<PoolRegistry>("PoolRegistry", POOL_REGISTRY);
+    const initialSupply = convertToUnit(10, 18);
+    const commands = [
+      cmd(treasury, "withdrawTreasuryToken", [token.address, initialSupply, NORMAL_TIMELOCK]),
+      cmd(token, "approve", [POOL_REGISTRY, initialSupply]),
+      cmd(comptroller, "setCollateralFactor", [vToken.address, convertToUnit("0.5", 18), convertToUnit("0.6", 18)]),
+      cmd(poolRegistry, "addMarket", [
+        {
+          vToken: vToken.address,
+          collateralFactor: convertToUnit("0.5", 18),
+          liquidationThreshold: convertToUnit("0.6", 18),
+          initialSupply,
+          vTokenReceiver: NORMAL_TIMELOCK,
+          supplyCap: convertToUnit(1000, 18),
+          borrowCap: convertToUnit(500, 18),
+        },
+      ]),
+    ];
+    proposal = buildProposal(commands, GOVERNOR_BRAVO, "List WBNB");
+    lines = await explainCalls([{ target: GOVERNOR_BRAVO, data: proposal.proposeCalldata }], globalConfig.hardhat, hre);
+  });
+
+  it("explains every command of the proposal", () => {
+    expect(lines[0]).to.match(/propose\(/);
+    for (const [idx, method] of ["withdrawTreasuryToken", "approve", "setCollateralFactor", "addMarket"].entries()) {
+      const header = lines.indexOf(`  #${idx}`);
+      expect(header).to.not.equal(-1);
+      expect(lines[header + 1]).to.include(`.${method}(`);
+    }
+  });
+
+  it("prints amounts in units of the token passed to the call", () => {
+    expect(lines).to.include(`    withdrawAmount: ${convertToUnit(10, 18)} (10 WBNB)`);
+  });
+
+  it("prints amounts in units of the target token", () => {
+    expect(lines).to.include(`    amount: ${convertToUnit(10, 18)} (10 WBNB)`);
+  });
+
+  it("prints mantissas as percentages and amounts in units of the underlying of the market", () => {
+    expect(lines).to.include(`    newCollateralFactorMantissa: ${convertToUnit("0.5", 18)} (50%)`);
+    const addMarket = lines.find(line => line.startsWith("    input: {"));
+    expect(addMarket).to.include(`initialSupply: ${convertToUnit(10, 18)} (10 WBNB)`);
+    expect(addMarket).to.include(`supplyCap: ${convertToUnit(1000, 18)} (1000 WBNB)`);
+  });
+
+  describe("vip:decode", () => {
+    let dir: string;
+
+    before(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "proposal-"));
+    });
+
+    after(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("rejects a proposal whose calldatas were edited", async () => {
+      const file = path.join(dir, "edited.json");
+      const calldatas = [...proposal.calldatas];
+      calldatas[1] = calldatas[0];
+      writeProposal({ ...proposal, calldatas }, file);
+      await expect(run("vip:decode", { proposal: file })).to.be.rejectedWith(
+        "calldatas[1] does not match the params of approve(address,uint256)",
+      );
+    });
+
+    it("flags a proposal that is not addressed to GovernorBravo of the network", async () => {
+      const file = path.join(dir, "proposal.json");
+      writeProposal(proposal, file);
+      try {
+        await run("vip:decode", { proposal: file });
+        expect(process.exitCode).to.equal(1);
+      } finally {
+        process.exitCode = undefined;
+      }
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import chai from "chai";
+import hre, { deployments, ethers } from "hardhat";
+
+import { getConfigDrifts, getRateModelDrifts } from "../../../helpers/configDiff";
+import { DeploymentConfig, InterestRateModels, blocksPerYear, globalConfig } from "../../../helpers/deploymentConfig";
+import { convertToUnit } from "../../../helpers/utils";
+
+const { expect } = chai;
+
+const cloneConfig = (config: DeploymentConfig): DeploymentConfig => JSON.parse(JSON.stringify(config));
+
+describe("config:diff", () => {
+  let config: DeploymentConfig;
+
+  // Drifts without the contract, rate models are reported with their address
+  const getFieldDrifts = async () =>
+    (await getConfigDrifts(config, hre)).map(({ field, expected, actual }) => ({ field, expected, actual }));
+
+  before(async () => {
+    await deployments.fixture();
+  });
+
+  beforeEach(() => {
+    config = cloneConfig(globalConfig.hardhat);
+  });
+
+  it("finds no drift between the local deployment and its config", async () => {
+    expect(await getConfigDrifts(config, hre)).to.deep.equal([]);
+  });
+
+  it("reports pool parameters in percentages", async () => {
+    config.poolConfig[0].closeFactor = convertToUnit("0.1", 18);
+    expect(await getConfigDrifts(config, hre)).to.deep.equal([
+      { contract: "Comptroller_Pool1", field: "closeFactor", expected: "10%", actual: "5%" },
+    ]);
+  });
+
+  it("reports market caps in units of the underlying", async () => {
+    config.poolConfig[0].vtokens[0].supplyCap = convertToUnit(1000, 18);
+    expect(await getConfigDrifts(config, hre)).to.deep.equal([
+      { contract: "VToken_vBNX", field: "supplyCap", expected: "1000 BNX", actual: "932019 BNX" },
+    ]);
+  });
+
+  it("reports rate model parameters as written in the data files", async () => {
+    config.poolConfig[0].vtokens[0].kink_ = convertToUnit("0.8", 18);
+    expect(await getFieldDrifts()).to.deep.equal([{ field: "kink", expected: "0.8 kink", actual: "0.5 kink" }]);
+  });
+
+  it("reports reward speeds of the markets", async () => {
+    const [reward] = config.poolConfig[0].rewards || [];
+    reward.supplySpeeds[0] = "0";
+    expect(await getConfigDrifts(config, hre)).to.deep.equal([
+      { contract: "RewardsDistributor_Pool1_0", field: "supplySpeed[BNX]", expected: "0", actual: "2300000000" },
+    ]);
+  });
+
+  it("reports markets that are not deployed", async () => {
+    config.poolConfig[0].vtokens.push({ ...config.poolConfig[0].vtokens[0], symbol: "vBNX_New" });
+    expect(await getConfigDrifts(config, hre)).to.deep.equal([
+      { contract: "VToken_vBNX_New", field: "deployment", expected: "deployed", actual: "not deployed" },
+    ]);
+  });
+
+  it("reports a jump rate model configured as a white paper model without reading its jump rate", async () => {
+    config.poolConfig[0].vtokens[0].rateModel = InterestRateModels.WhitePaper.toString();
+    expect(await getFieldDrifts()).to.deep.equal([{ field: "rateModel", expected: "WhitePaper", actual: "JumpRate" }]);
+  });
+
+  it("tells a deployed white paper model apart although it has no kink", async () => {
+    const vTokenConfig = config.poolConfig[0].vtokens[0];
+    const WhitePaperInterestRateModel = await ethers.getContractFactory("WhitePaperInterestRateModel");
+    const rateModel = await WhitePaperInterestRateModel.deploy(
+      blocksPerYear.hardhat,
+      vTokenConfig.baseRatePerYear,
+      vTokenConfig.multiplierPerYear,
+    );
+    const drifts = await getRateModelDrifts(rateModel.address, vTokenConfig, hre);
+    expect(drifts.map(({ field, expected, actual }) => ({ field, expected, actual }))).to.deep.equal([
+      { field: "rateModel", expected: "JumpRate", actual: "WhitePaper" },
+    ]);
+  });
+});
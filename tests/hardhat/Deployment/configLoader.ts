@@ -0,0 +1,33 @@
+import chai from "chai";
+
+import bscmainnetConfig from "../../../helpers/config/bscmainnet.json";
+import bsctestnetConfig from "../../../helpers/config/bsctestnet.json";
+import sepoliaConfig from "../../../helpers/config/sepolia.json";
+import { NetworkConfigFile } from "../../../helpers/configLoader";
+import { PreconfiguredAddresses, loadConfig } from "../../../helpers/deploymentConfig";
+import { networks } from "../../../helpers/networks";
+import bscmainnetSnapshot from "./snapshots/bscmainnet.json";
+import bsctestnetSnapshot from "./snapshots/bsctestnet.json";
+import sepoliaSnapshot from "./snapshots/sepolia.json";
+
+const { expect } = chai;
+
+// The snapshots are the TypeScript configs the data files replaced, with the ids given to the rewards since. Addresses
+// are loaded as the name of the preconfigured address, so the snapshots do not depend on the governance deployments
+const snapshots: { [network: string]: [NetworkConfigFile, unknown] } = {
+  bscmainnet: [bscmainnetConfig, bscmainnetSnapshot],
+  bsctestnet: [bsctestnetConfig, bsctestnetSnapshot],
+  sepolia: [sepoliaConfig, sepoliaSnapshot],
+};
+
+const namedAddresses = (network: string): PreconfiguredAddresses =>
+  Object.fromEntries(Object.keys(networks[network].addresses).map(name => [name, `preconfiguredAddresses.${name}`]));
+
+describe("Config loader", () => {
+  for (const [network, [file, snapshot]] of Object.entries(snapshots)) {
+    it(`loads the ${network} data file as the config it replaced`, () => {
+      const { tokensConfig, poolConfig, accessControlConfig } = loadConfig(file, namedAddresses(network));
+      expect({ tokensConfig, poolConfig, accessControlConfig }).to.deep.equal(snapshot);
+    });
+  }
+});
@@ -0,0 +1,73 @@
+import chai from "chai";
+
+import { resolveConfigValues } from "../../../helpers/configLoader";
+import {
+  formatAnnualRate,
+  formatKink,
+  formatPercentage,
+  formatTokenAmount,
+  parseUnitValue,
+} from "../../../helpers/configUnits";
+import { TokenConfig } from "../../../helpers/deploymentConfig";
+import { convertToUnit } from "../../../helpers/utils";
+
+const { expect } = chai;
+
+const tokensConfig: TokenConfig[] = [
+  { isMock: false, symbol: "ETH", decimals: 18, tokenAddress: "0x2170Ed0880ac9A755fd29B2688956BD959F933F8" },
+  { isMock: false, symbol: "USDC", decimals: 6, tokenAddress: "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d" },
+];
+
+describe("Config units", () => {
+  it("normalizes percentages, yearly rates and kinks to mantissas", () => {
+    expect(parseUnitValue("75%", "collateralFactor", tokensConfig)).to.equal(convertToUnit("0.75", 18));
+    expect(parseUnitValue("2% APR", "baseRatePerYear", tokensConfig)).to.equal(convertToUnit("0.02", 18));
+    expect(parseUnitValue("0.8 kink", "kink_", tokensConfig)).to.equal(convertToUnit("0.8", 18));
+  });
+
+  it("scales token amounts by the decimals of the token", () => {
+    expect(parseUnitValue("5500 ETH", "supplyCap", tokensConfig)).to.equal(convertToUnit(5500, 18));
+    expect(parseUnitValue("1000.5 usdc", "borrowCap", tokensConfig)).to.equal(convertToUnit("1000.5", 6));
+  });
+
+  it("leaves other values alone", () => {
+    expect(parseUnitValue("28800", "reduceReservesBlockDelta", tokensConfig)).to.equal(undefined);
+    expect(parseUnitValue("Venus ETH (DeFi)", "name", tokensConfig)).to.equal(undefined);
+  });
+
+  it("rejects unknown tokens and amounts below the precision of the token", () => {
+    expect(() => parseUnitValue("10 BTC", "supplyCap", tokensConfig)).to.throw(
+      "supplyCap: BTC is not a token of tokensConfig",
+    );
+    expect(() => parseUnitValue("0.0000001 USDC", "supplyCap", tokensConfig)).to.throw(
+      "supplyCap: 0.0000001 USDC has more than 6 decimals",
+    );
+  });
+
+  it("resolves the units of a market written like the data files", () => {
+    const market = resolveConfigValues(
+      { collateralFactor: "75%", supplyCap: "5500 ETH", borrowCap: "4500e18" },
+      { preconfiguredAddresses: {}, references: {}, permissionPresets: {}, tokensConfig },
+    );
+    expect(market).to.deep.equal({
+      collateralFactor: convertToUnit("0.75", 18),
+      supplyCap: convertToUnit(5500, 18),
+      borrowCap: convertToUnit(4500, 18),
+    });
+  });
+
+  it("keeps names and symbols that look like amounts", () => {
+    const market = resolveConfigValues(
+      { name: "2 ETH", asset: "ETH", supplyCap: "2 ETH" },
+      { preconfiguredAddresses: {}, references: {}, permissionPresets: {}, tokensConfig },
+    );
+    expect(market).to.deep.equal({ name: "2 ETH", asset: "ETH", supplyCap: convertToUnit(2, 18) });
+  });
+
+  it("renders mantissas back in the units of the data files", () => {
+    expect(formatPercentage(convertToUnit("0.75", 18))).to.equal("75%");
+    expect(formatAnnualRate(convertToUnit("0.02", 18))).to.equal("2% APR");
+    expect(formatKink(convertToUnit("0.8", 18))).to.equal("0.8 kink");
+    expect(formatTokenAmount(convertToUnit(5500, 6), tokensConfig[1])).to.equal("5500 USDC");
+  });
+});
@@ -0,0 +1,170 @@
+import chai from "chai";
+import { constants } from "ethers";
+
+import { validateDeploymentConfig } from "../../../helpers/configValidation";
+import { ContractSignatures } from "../../../helpers/contractSignatures";
+import { DeploymentConfig, globalConfig } from "../../../helpers/deploymentConfig";
+import { convertToUnit } from "../../../helpers/utils";
+
+const { expect } = chai;
+
+const cloneConfig = (config: DeploymentConfig): DeploymentConfig => JSON.parse(JSON.stringify(config));
+
+describe("Deployment config validation", () => {
+  let config: DeploymentConfig;
+
+  beforeEach(() => {
+    config = cloneConfig(globalConfig.hardhat);
+  });
+
+  for (const [networkName, networkConfig] of Object.entries(globalConfig)) {
+    it(`accepts the ${networkName} config`, () => {
+      expect(validateDeploymentConfig(networkConfig)).to.deep.equal([]);
+    });
+  }
+
+  it("rejects a collateral factor above the liquidation threshold", () => {
+    config.poolConfig[0].vtokens[1].collateralFactor = convertToUnit(0.9, 18);
+    expect(validateDeploymentConfig(config)).to.deep.equal([
+      {
+        path: "poolConfig[0].vtokens[1].collateralFactor",
+        message: `collateral factor ${convertToUnit(0.9, 18)} exceeds liquidation threshold ${convertToUnit(0.8, 18)}`,
+      },
+    ]);
+  });
+
+  it("rejects reward configs with mismatching array lengths", () => {
+    const [reward] = config.poolConfig[0].rewards || [];
+    reward.borrowSpeeds.pop();
+    expect(validateDeploymentConfig(config)).to.deep.equal([
+      {
+        path: "poolConfig[0].rewards[0]",
+        message: "markets, supplySpeeds and borrowSpeeds should have the same length, got 2, 2 and 1",
+      },
+    ]);
+  });
+
+  it("rejects markets of unknown tokens", () => {
+    config.poolConfig[1].vtokens[0].asset = "UNKNOWN";
+    const paths = validateDeploymentConfig(config).map(issue => issue.path);
+    expect(paths).to.include("poolConfig[1].vtokens[0].asset");
+  });
+
+  it("reports the path of malformed fields", () => {
+    (config.poolConfig[0].vtokens[0] as { supplyCap: unknown }).supplyCap = 1000;
+    expect(validateDeploymentConfig(config)).to.deep.equal([
+      { path: "poolConfig[0].vtokens[0].supplyCap", message: "expected an unsigned integer string, got 1000" },
+    ]);
+  });
+
+  it("rejects reward campaigns that ended", () => {
+    const [reward] = config.poolConfig[0].rewards || [];
+    reward.end = { timestamp: 1672531200 };
+    expect(validateDeploymentConfig(config)).to.deep.equal([
+      { path: "poolConfig[0].rewards[0].end", message: "campaign ended at 2023-01-01T00:00:00.000Z" },
+    ]);
+  });
+
+  it("rejects reward campaigns that ended at a block of the network", () => {
+    const [reward] = config.poolConfig[0].rewards || [];
+    reward.end = { block: 1000 };
+    expect(validateDeploymentConfig(config)).to.deep.equal([]);
+    expect(validateDeploymentConfig(config, undefined, 999)).to.deep.equal([]);
+    expect(validateDeploymentConfig(config, undefined, 1000)).to.deep.equal([
+      { path: "poolConfig[0].rewards[0].end", message: "campaign ended at block 1000, the network is at block 1000" },
+    ]);
+  });
+
+  it("rejects reward campaigns ending before they start", () => {
+    const [reward] = config.poolConfig[0].rewards || [];
+    reward.start = { block: 2000 };
+    reward.end = { block: 1000 };
+    expect(validateDeploymentConfig(config)).to.deep.equal([
+      { path: "poolConfig[0].rewards[0].end", message: "campaign ends before it starts" },
+    ]);
+  });
+
+  it("rejects contributors defined more than once", () => {
+    const [reward] = config.poolConfig[0].rewards || [];
+    reward.contributors = [
+      { address: "0x0000000000000000000000000000000000000001", speed: "1" },
+      { address: "0x0000000000000000000000000000000000000001", speed: "2" },
+    ];
+    expect(validateDeploymentConfig(config)).to.deep.equal([
+      {
+        path: "poolConfig[0].rewards[0].contributors",
+        message: "contributor 0x0000000000000000000000000000000000000001 is defined more than once",
+      },
+    ]);
+  });
+
+  it("rejects rewards sharing an id in a pool", () => {
+    const [, reward] = config.poolConfig[0].rewards || [];
+    reward.id = "0";
+    expect(validateDeploymentConfig(config)).to.deep.equal([
+      { path: "poolConfig[0].rewards", message: "pool Pool1 defines reward 0 more than once" },
+    ]);
+  });
+
+  describe("permissions", () => {
+    const signatures = new Map<string, ContractSignatures>([
+      [
+        "PoolRegistry",
+        {
+          abi: new Set([
+            "addMarket((address,uint256,uint256,uint256,address,uint256,uint256))",
+            "addPool(string,address,uint256,uint256,uint256)",
+          ]),
+          accessControl: new Set(["addMarket(AddMarketInput)", "addPool(string,address,uint256,uint256,uint256)"]),
+        },
+      ],
+      [
+        "Comptroller",
+        {
+          abi: new Set(["setCloseFactor(uint256)", "supportMarket(address)"]),
+          accessControl: new Set(["setCloseFactor(uint256)"]),
+        },
+      ],
+    ]);
+
+    beforeEach(() => {
+      config.accessControlConfig = [
+        { caller: "PoolRegistry", target: constants.AddressZero, method: "supportMarket(address)" },
+        { caller: "account:deployer", target: constants.AddressZero, method: "addMarket(AddMarketInput)" },
+        { caller: "account:deployer", target: "Comptroller_Pool1", method: "setCloseFactor(uint256)" },
+      ];
+    });
+
+    it("accepts methods checked by the contracts and ABI signatures", () => {
+      expect(validateDeploymentConfig(config, signatures)).to.deep.equal([]);
+    });
+
+    it("suggests the signature checked by the contracts", () => {
+      config.accessControlConfig[1].method = "addMarket(address,uint256)";
+      expect(validateDeploymentConfig(config, signatures)).to.deep.equal([
+        {
+          path: "accessControlConfig[1].method",
+          message:
+            "method addMarket(address,uint256) is not defined on any compiled contract, did you mean addMarket(AddMarketInput)?",
+        },
+      ]);
+    });
+
+    it("checks methods against the contract of the target", () => {
+      config.accessControlConfig[2].method = "addPool(string,address,uint256,uint256,uint256)";
+      expect(validateDeploymentConfig(config, signatures)).to.deep.equal([
+        {
+          path: "accessControlConfig[2].method",
+          message:
+            "method addPool(string,address,uint256,uint256,uint256) is not defined on Comptroller_Pool1, no function is named addPool",
+        },
+      ]);
+    });
+
+    it("skips targets without build info", () => {
+      config.accessControlConfig[2].target = "0x0000000000000000000000000000000000000001";
+      config.accessControlConfig[2].method = "unknown()";
+      expect(validateDeploymentConfig(config, signatures)).to.deep.equal([]);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import chai from "chai";
+import { EventEmitter } from "events";
+import hre, { deployments, ethers } from "hardhat";
+import { TASK_NODE_CREATE_SERVER } from "hardhat/builtin-tasks/task-names";
+import { createProvider } from "hardhat/internal/core/providers/construction";
+import { EIP1193Provider, JsonRpcServer, RequestArguments } from "hardhat/types";
+
+import { printDeploymentPlan, startDeploymentPlan } from "../../../helpers/deploymentPlan";
+import { MockToken, MockToken__factory } from "../../../typechain";
+
+const { expect } = chai;
+
+type Node = { server: JsonRpcServer; url: string };
+
+// Serves the local network with the request method hre started with, out of reach of the plan
+class LiveNodeProvider extends EventEmitter implements EIP1193Provider {
+  constructor(private readonly live: EIP1193Provider["request"]) {
+    super();
+  }
+
+  public request(args: RequestArguments): Promise<unknown> {
+    return this.live(args);
+  }
+}
+
+const serve = async (provider: EIP1193Provider): Promise<Node> => {
+  const server: JsonRpcServer = await hre.run(TASK_NODE_CREATE_SERVER, { hostname: "127.0.0.1", port: 0, provider });
+  const { address, port } = await server.listen();
+  return { server, url: `http://${address}:${port}` };
+};
+
+describe("Deployment plan", () => {
+  let liveNode: Node;
+  let forkNode: Node;
+  let deployer: string;
+
+  before(async () => {
+    await deployments.fixture();
+    ({ deployer } = await hre.getNamedAccounts());
+    const { provider } = hre.network;
+    liveNode = await serve(new LiveNodeProvider(provider.request.bind(provider)));
+
+    // A second chain forking the local network, the way `npx hardhat node --fork <rpc>` forks a live one
+    const forking = {
+      enabled: true,
+      url: liveNode.url,
+      blockNumber: await ethers.provider.getBlockNumber(),
+      httpHeaders: {},
+    };
+    const forkConfig = {
+      ...hre.config,
+      networks: { ...hre.config.networks, hardhat: { ...hre.config.networks.hardhat, forking } },
+    };
+    forkNode = await serve(await createProvider(forkConfig, "hardhat", hre.artifacts));
+  });
+
+  after(async () => {
+    await deployments.delete("PlanToken");
+    await forkNode.server.close();
+    await liveNode.server.close();
+  });
+
+  it("sends nothing to the network although hre.ethers and hardhat-deploy cached its provider", async () => {
+    const blockNumber = await ethers.provider.getBlockNumber();
+    const { plan, stop } = await startDeploymentPlan(hre, forkNode.url);
+    try {
+      await deployments.deploy("PlanToken", { contract: "MockToken", from: deployer, args: ["Plan", "PLAN", 18] });
+      await deployments.execute("PlanToken", { from: deployer }, "faucet", 100);
+      const planToken = await ethers.getContract<MockToken>("PlanToken", deployer);
+      await planToken.faucet(200);
+      expect(await planToken.balanceOf(deployer)).to.equal(300);
+    } finally {
+      stop();
+    }
+    const token = MockToken__factory.connect((await deployments.get("PlanToken")).address, ethers.provider);
+
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+    expect(await ethers.provider.getCode(token.address)).to.equal("0x");
+
+    expect(plan.steps).to.deep.equal([
+      {
+        kind: "deployment",
+        name: "PlanToken",
+        contract: "MockToken",
+        args: ["Plan", "PLAN", 18],
+        address: token.address,
+      },
+      ...[100, 200].map(amount => ({
+        kind: "transaction",
+        from: deployer,
+        to: token.address,
+        data: token.interface.encodeFunctionData("faucet", [amount]),
+        value: "0x0",
+      })),
+    ]);
+
+    const lines: string[] = [];
+    const { log } = console;
+    console.log = (line: string) => lines.push(line);
+    try {
+      await printDeploymentPlan(plan, hre);
+    } finally {
+      console.log = log;
+    }
+    const send = `  send from ${deployer} (account:deployer) to ${token.address} (PlanToken)`;
+    expect(lines).to.deep.equal([
+      `\nDeployment plan for hardhat, run on ${forkNode.url} and nothing was broadcast`,
+      "  deploy PlanToken as MockToken",
+      '    constructor args: ["Plan","PLAN",18]',
+      send,
+      '    faucet("100")',
+      send,
+      '    faucet("200")',
+    ]);
+  });
+});
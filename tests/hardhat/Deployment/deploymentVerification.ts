@@ -0,0 +1,86 @@
+import chai from "chai";
+import hre, { deployments, ethers } from "hardhat";
+
+import { globalConfig } from "../../../helpers/deploymentConfig";
+import { verifyDeployment } from "../../../helpers/deploymentVerification";
+import { Comptroller, VToken } from "../../../typechain";
+
+const { expect } = chai;
+
+describe("verify-deployment", () => {
+  const config = globalConfig.hardhat;
+  let deployer: string;
+  let other: string;
+
+  // Checks that did not pass, with their failures
+  const getFailures = async () => (await verifyDeployment(config, hre)).filter(({ failures }) => failures.length > 0);
+
+  // Markets and comptrollers are beacon proxies, deployed with the ABI of the proxy
+  const getVToken = async (name: string) =>
+    ethers.getContractAt<VToken>("VToken", (await deployments.get(name)).address, deployer);
+  const getComptroller = async (name: string) =>
+    ethers.getContractAt<Comptroller>("Comptroller", (await deployments.get(name)).address, deployer);
+
+  beforeEach(async () => {
+    await deployments.fixture();
+    ({ deployer } = await hre.getNamedAccounts());
+    [, other] = (await ethers.getSigners()).map(({ address }) => address);
+  });
+
+  it("passes every check on the local deployment", async () => {
+    const results = await verifyDeployment(config, hre);
+    expect(results.map(({ check }) => check)).to.deep.equal([
+      "Beacons point at the implementations",
+      "Pools are registered in PoolRegistry",
+      "Markets use the right contracts",
+      "Contracts are owned by NormalTimelock",
+      "Permissions are granted",
+    ]);
+    expect(await getFailures()).to.deep.equal([]);
+  });
+
+  it("reports a market pointing at another shortfall contract", async () => {
+    const vToken = await getVToken("VToken_vBNX");
+    const shortfall = await deployments.get("Shortfall");
+    await vToken.setShortfallContract(other);
+
+    expect(await getFailures()).to.deep.equal([
+      {
+        check: "Markets use the right contracts",
+        failures: [{ contract: "VToken_vBNX", field: "shortfall", expected: shortfall.address, actual: other }],
+      },
+    ]);
+  });
+
+  it("reports a contract owned by another account", async () => {
+    const comptroller = await getComptroller("Comptroller_Pool1");
+    await comptroller.transferOwnership(other);
+    await comptroller.connect(await ethers.getSigner(other)).acceptOwnership();
+
+    expect(await getFailures()).to.deep.equal([
+      {
+        check: "Contracts are owned by NormalTimelock",
+        failures: [{ contract: "Comptroller_Pool1", field: "owner", expected: deployer, actual: other }],
+      },
+    ]);
+  });
+
+  it("reports an ownership transfer that is still pending", async () => {
+    const comptroller = await getComptroller("Comptroller_Pool1");
+    await comptroller.transferOwnership(other);
+
+    expect(await getFailures()).to.deep.equal([
+      {
+        check: "Contracts are owned by NormalTimelock",
+        failures: [
+          {
+            contract: "Comptroller_Pool1",
+            field: "pendingOwner",
+            expected: ethers.constants.AddressZero,
+            actual: other,
+          },
+        ],
+      },
+    ]);
+  });
+});
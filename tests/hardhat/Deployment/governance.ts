@@ -0,0 +1,148 @@
+import chai from "chai";
+import { Contract, utils } from "ethers";
+
+import {
+  Proposal,
+  ProposalType,
+  VipCommand,
+  buildProposal,
+  buildSafeBatch,
+  cmd,
+  decodeProposal,
+  decodeSafeBatch,
+} from "../../../helpers/governance";
+import { convertToUnit } from "../../../helpers/utils";
+
+const { expect } = chai;
+
+const GOVERNOR_BRAVO = utils.getAddress("0x2d56dc077072b53571b8252008c60e945108c75a");
+const COMPTROLLER = utils.getAddress("0x94c1495cd4c557f1560cbd68eab0d197e6291571");
+const VTOKEN = utils.getAddress("0x9447b8e5e6cf5a7c6d4d8fcf2f2ad0b87e9ab8f6");
+
+describe("Governance proposals", () => {
+  const commands: VipCommand[] = [
+    {
+      target: COMPTROLLER,
+      signature: "setCollateralFactor(address,uint256,uint256)",
+      params: [VTOKEN, convertToUnit("0.5", 18), convertToUnit("0.6", 18)],
+      value: "0",
+    },
+    {
+      target: COMPTROLLER,
+      signature: "setMarketSupplyCaps(address[],uint256[])",
+      params: [[VTOKEN], [convertToUnit(1000, 18)]],
+      value: "0",
+    },
+  ];
+  let proposal: Proposal;
+
+  beforeEach(() => {
+    proposal = buildProposal(commands, GOVERNOR_BRAVO, "Update market parameters");
+  });
+
+  it("encodes params without the selector", () => {
+    expect(proposal.signatures).to.deep.equal(commands.map(command => command.signature));
+    expect(proposal.calldatas[0]).to.equal(
+      utils.defaultAbiCoder.encode(["address", "uint256", "uint256"], commands[0].params),
+    );
+    expect(proposal.proposalType).to.equal(ProposalType.NORMAL);
+  });
+
+  it("hashes the propose calldata", () => {
+    expect(proposal.proposalHash).to.equal(utils.keccak256(proposal.proposeCalldata));
+    expect(buildProposal(commands, GOVERNOR_BRAVO, "Update market parameters")).to.deep.equal(proposal);
+  });
+
+  it("decodes the commands of a proposal", () => {
+    expect(decodeProposal(proposal)).to.deep.equal(commands);
+  });
+
+  it("rejects a proposal whose arguments were edited", () => {
+    const edited = { ...proposal, values: ["1", "0"] };
+    expect(() => decodeProposal(edited)).to.throw("proposeCalldata does not match the proposal arguments");
+  });
+
+  it("rejects a proposal with a wrong hash", () => {
+    const edited = { ...proposal, proposalHash: utils.keccak256("0x") };
+    expect(() => decodeProposal(edited)).to.throw(`proposalHash should be ${proposal.proposalHash}`);
+  });
+
+  describe("Safe transaction batches", () => {
+    const SAFE = utils.getAddress("0x94fa6078b6b8a26f0b6edffbe6501b22a10470fb");
+    const POOL_REGISTRY = utils.getAddress("0x758f5715d817e02857ba40889251201a5ae3e186");
+
+    it("describes every method with typed inputs", () => {
+      const batch = buildSafeBatch(commands, SAFE, 11155111, "vip-based-config");
+      expect(batch.chainId).to.equal("11155111");
+      expect(batch.meta.createdFromSafeAddress).to.equal(SAFE);
+      expect(batch.transactions[1]).to.deep.equal({
+        to: COMPTROLLER,
+        value: "0",
+        data: null,
+        contractMethod: {
+          name: "setMarketSupplyCaps",
+          payable: false,
+          inputs: [
+            { name: "arg0", type: "address[]", internalType: "address[]" },
+            { name: "arg1", type: "uint256[]", internalType: "uint256[]" },
+          ],
+        },
+        contractInputsValues: {
+          arg0: JSON.stringify([VTOKEN]),
+          arg1: JSON.stringify([convertToUnit(1000, 18)]),
+        },
+      });
+    });
+
+    it("decodes the commands of a batch", () => {
+      const withTuple: VipCommand[] = [
+        ...commands,
+        {
+          target: POOL_REGISTRY,
+          signature: "addMarket((address,uint256,uint256,uint256,address,uint256,uint256))",
+          params: [[VTOKEN, "500000000000000000", "600000000000000000", "1000", SAFE, "10000", "5000"]],
+          value: "0",
+        },
+      ];
+      expect(decodeSafeBatch(buildSafeBatch(withTuple, SAFE, 11155111, "vip-based-config"))).to.deep.equal(withTuple);
+    });
+  });
+
+  describe("Typed commands", () => {
+    const POOL_REGISTRY = utils.getAddress("0x758f5715d817e02857ba40889251201a5ae3e186");
+    const comptroller = new Contract(COMPTROLLER, [
+      "function setCollateralFactor(address vToken, uint256 newCollateralFactorMantissa, uint256 newLiquidationThresholdMantissa)",
+    ]);
+    const poolRegistry = new Contract(POOL_REGISTRY, [
+      "function addMarket(tuple(address vToken, uint256 collateralFactor, uint256 liquidationThreshold, uint256 initialSupply, address vTokenReceiver, uint256 supplyCap, uint256 borrowCap) input)",
+    ]);
+
+    it("derives the signature from the contract", () => {
+      const command = cmd(comptroller, "setCollateralFactor", [
+        VTOKEN,
+        convertToUnit("0.5", 18),
+        convertToUnit("0.6", 18),
+      ]);
+      expect(command).to.deep.equal({ ...commands[0], value: 0 });
+    });
+
+    it("turns structs into tuples", () => {
+      const input = {
+        vToken: VTOKEN,
+        collateralFactor: "500000000000000000",
+        liquidationThreshold: "600000000000000000",
+        initialSupply: "1000",
+        vTokenReceiver: COMPTROLLER,
+        supplyCap: "10000",
+        borrowCap: "5000",
+      };
+      const command = cmd(poolRegistry, "addMarket", [input]);
+      expect(command.signature).to.equal("addMarket((address,uint256,uint256,uint256,address,uint256,uint256))");
+      expect(command.params).to.deep.equal([Object.values(input)]);
+    });
+
+    it("rejects arguments that do not match the ABI", () => {
+      expect(() => cmd(comptroller, "setCollateralFactor", [VTOKEN, convertToUnit("0.5", 18)])).to.throw();
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import chai from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { DeploymentConfig, InterestRateModels, globalConfig } from "../../../helpers/deploymentConfig";
+import { resolveMarketConfig } from "../../../helpers/marketListing";
+import { convertToUnit } from "../../../helpers/utils";
+
+const { expect } = chai;
+
+describe("Market listing config", () => {
+  const config: DeploymentConfig = globalConfig.hardhat;
+  const market = {
+    name: "Venus AUTO",
+    asset: "AUTO",
+    symbol: "vAUTO",
+    rateModel: "InterestRateModels.WhitePaper",
+    baseRatePerYear: "0",
+    multiplierPerYear: "0.1e18",
+    jumpMultiplierPerYear: "0",
+    kink_: "0",
+    collateralFactor: "0.5e18",
+    liquidationThreshold: "0.6e18",
+    reserveFactor: "0.2e18",
+    initialSupply: "10e18",
+    supplyCap: "1000e18",
+    borrowCap: "500e18",
+    vTokenReceiver: "account:deployer",
+    reduceReservesBlockDelta: "100",
+  };
+  let configDir: string;
+  let configPath: string;
+
+  before(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), "market-"));
+    configPath = path.join(configDir, "market.json");
+    fs.writeFileSync(configPath, JSON.stringify(market));
+  });
+
+  after(() => {
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it("resolves the market file with the references of the network", () => {
+    const vTokenConfig = resolveMarketConfig("Pool1", configPath, {}, config);
+    expect(vTokenConfig.rateModel).to.equal(InterestRateModels.WhitePaper.toString());
+    expect(vTokenConfig.supplyCap).to.equal(convertToUnit(1000, 18));
+  });
+
+  it("applies the overrides over the file", () => {
+    const vTokenConfig = resolveMarketConfig("Pool1", configPath, { borrowCap: "600e18", name: undefined }, config);
+    expect(vTokenConfig.borrowCap).to.equal(convertToUnit(600, 18));
+    expect(vTokenConfig.name).to.equal("Venus AUTO");
+  });
+
+  it("validates the market within its pool", () => {
+    expect(() => resolveMarketConfig("Pool1", configPath, { collateralFactor: "0.7e18" }, config)).to.throw(
+      `collateral factor ${convertToUnit(0.7, 18)} exceeds liquidation threshold ${convertToUnit(0.6, 18)}`,
+    );
+    expect(() => resolveMarketConfig("Unknown", configPath, {}, config)).to.throw(
+      "pool Unknown is not defined in the deployment config",
+    );
+  });
+});
@@ -0,0 +1,27 @@
+import chai from "chai";
+import { config } from "hardhat";
+
+import { getConfig, globalConfig } from "../../../helpers/deploymentConfig";
+import { networks } from "../../../helpers/networks";
+
+const { expect } = chai;
+
+describe("Network registry", () => {
+  for (const [name, network] of Object.entries(networks)) {
+    it(`defines the hardhat network ${name}`, () => {
+      expect(config.networks[name]?.chainId).to.equal(network.chainId);
+    });
+  }
+
+  it("references existing deployment configs", () => {
+    const deploymentConfigs = Object.values(networks).map(network => network.deploymentConfig);
+    for (const name of deploymentConfigs.filter(Boolean)) {
+      expect(globalConfig).to.have.property(name as string);
+    }
+  });
+
+  it("rejects networks without a deployment config", async () => {
+    const name = Object.keys(networks).find(key => !networks[key].deploymentConfig);
+    await expect(getConfig(name as string)).to.be.rejectedWith(`config for network ${name} is not available.`);
+  });
+});
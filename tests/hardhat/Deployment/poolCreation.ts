@@ -0,0 +1,69 @@
+import chai from "chai";
+import { deployments, ethers, run } from "hardhat";
+
+import { PoolConfig, globalConfig } from "../../../helpers/deploymentConfig";
+import { getComptrollerName, getRewardsDistributorName } from "../../../helpers/deploymentUtils";
+import { addRewardsDistributor } from "../../../helpers/poolCreation";
+import { Comptroller, PoolRegistry, VToken } from "../../../typechain";
+
+const { expect } = chai;
+
+describe("pool:create", () => {
+  const { poolConfig } = globalConfig.hardhat;
+  const [basePool] = poolConfig;
+  // A pool added to the config after the network was deployed, with the underlyings of the first pool
+  const newPool: PoolConfig = {
+    ...basePool,
+    id: "Pool3",
+    name: "Pool 3",
+    vtokens: basePool.vtokens.map(vToken => ({
+      ...vToken,
+      name: `${vToken.name} (Pool 3)`,
+      symbol: `${vToken.symbol}_Pool3`,
+    })),
+    rewards: [],
+  };
+
+  before(async () => {
+    await deployments.fixture();
+    poolConfig.push(newPool);
+  });
+
+  after(() => {
+    poolConfig.splice(poolConfig.indexOf(newPool), 1);
+  });
+
+  it("deploys the pool, funds the initial supplies and registers the markets", async () => {
+    await run("pool:create", { pool: newPool.id });
+
+    const poolRegistry = await ethers.getContract<PoolRegistry>("PoolRegistry");
+    // Comptrollers and markets are beacon proxies, deployed with the ABI of the proxy
+    const comptrollerDeployment = await deployments.get(`Comptroller_${newPool.id}`);
+    const comptroller = await ethers.getContractAt<Comptroller>("Comptroller", comptrollerDeployment.address);
+    const registeredPool = await poolRegistry.getPoolByComptroller(comptroller.address);
+    expect(registeredPool.name).to.equal(newPool.name);
+    for (const { symbol } of newPool.vtokens) {
+      const vToken = await ethers.getContractAt<VToken>("VToken", (await deployments.get(`VToken_${symbol}`)).address);
+      expect((await comptroller.markets(vToken.address)).isListed).to.equal(true);
+      expect(await vToken.totalSupply()).to.be.gt(0);
+    }
+  });
+
+  it("refuses a pool that is already registered", async () => {
+    await expect(run("pool:create", { pool: newPool.id })).to.be.rejectedWith(
+      `Comptroller_${newPool.id} is already registered in PoolRegistry`,
+    );
+  });
+
+  it("adds a rewards distributor through the comptroller of its pool", async () => {
+    const [rewardConfig] = basePool.rewards || [];
+    const comptroller = await deployments.get(getComptrollerName(basePool));
+    const rewardsDistributor = await deployments.get(getRewardsDistributorName(basePool, rewardConfig));
+    expect(await addRewardsDistributor(rewardsDistributor.address, basePool, rewardConfig)).to.deep.equal({
+      target: comptroller.address,
+      signature: "addRewardsDistributor(address)",
+      params: [rewardsDistributor.address],
+      value: 0,
+    });
+  });
+});
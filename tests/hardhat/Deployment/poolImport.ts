@@ -0,0 +1,55 @@
+import chai from "chai";
+import { BigNumber, utils } from "ethers";
+import hre from "hardhat";
+
+import { getRewardId, toRatePerYear } from "../../../helpers/poolImport";
+import { convertToUnit } from "../../../helpers/utils";
+
+const { expect } = chai;
+
+describe("Pool import", () => {
+  const blocksPerYear = BigNumber.from(10512000);
+
+  for (const ratePerYear of ["0.02", "0.1", "2.5", "0.0325"]) {
+    it(`recovers a rate of ${ratePerYear} per year from the rate per block`, () => {
+      const ratePerBlock = BigNumber.from(convertToUnit(ratePerYear, 18)).div(blocksPerYear);
+      expect(toRatePerYear(ratePerBlock, blocksPerYear).toString()).to.equal(convertToUnit(ratePerYear, 18));
+    });
+  }
+
+  it("keeps zero rates", () => {
+    expect(toRatePerYear(BigNumber.from(0), blocksPerYear).toString()).to.equal("0");
+  });
+
+  describe("reward ids", () => {
+    const { deployments } = hre;
+    const distributor = "0x000000000000000000000000000000000000d15a";
+    const implementation = "0x000000000000000000000000000000000000d158";
+    const saved = [
+      { name: "RewardsDistributor_Stablecoins_HAY", address: distributor },
+      { name: "RewardsDistributor_Stablecoins_HAY_Proxy", address: distributor },
+      { name: "RewardsDistributor_Stablecoins_HAY_Implementation", address: implementation },
+    ];
+
+    before(async () => {
+      for (const { name, address } of saved) {
+        await deployments.save(name, { address, abi: [] });
+      }
+    });
+
+    after(async () => {
+      for (const { name } of saved) {
+        await deployments.delete(name);
+      }
+    });
+
+    it("keeps the id a rewards distributor is deployed under", async () => {
+      expect(await getRewardId("Stablecoins", utils.getAddress(distributor), 3, hre)).to.equal("HAY");
+    });
+
+    it("numbers the rewards distributors deployed in other pools or not deployed", async () => {
+      expect(await getRewardId("DeFi", distributor, 3, hre)).to.equal("3");
+      expect(await getRewardId("Stablecoins", implementation, 1, hre)).to.equal("1");
+    });
+  });
+});
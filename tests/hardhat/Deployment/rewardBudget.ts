@@ -0,0 +1,58 @@
+import chai from "chai";
+import { BigNumber } from "ethers";
+
+import { getRewardEmissions, getRunwayDays } from "../../../helpers/rewardBudget";
+import { convertToUnit } from "../../../helpers/utils";
+
+const { expect } = chai;
+
+describe("Reward budget", () => {
+  const blocksPerYear = 10512000;
+  const rewardConfig = {
+    id: "0",
+    asset: "XVS",
+    markets: ["USDT", "BTCB"],
+    supplySpeeds: [convertToUnit(1, 15), convertToUnit(2, 15)],
+    borrowSpeeds: [convertToUnit(1, 15), "0"],
+  };
+
+  it("adds up the speeds of every market into emissions per day, month and year", () => {
+    const emissions = getRewardEmissions(rewardConfig, blocksPerYear);
+    expect(emissions.perBlock.toString()).to.equal(convertToUnit(4, 15));
+    expect(emissions.perYear.toString()).to.equal(convertToUnit(42048, 18));
+    expect(emissions.perDay.toString()).to.equal(convertToUnit("115.2", 18));
+    expect(emissions.perMonth.toString()).to.equal(convertToUnit(3504, 18));
+  });
+
+  it("includes the speeds of the contributors", () => {
+    const contributors = [{ address: "account:deployer", speed: convertToUnit(1, 15) }];
+    const emissions = getRewardEmissions({ ...rewardConfig, contributors }, blocksPerYear);
+    expect(emissions.perBlock.toString()).to.equal(convertToUnit(5, 15));
+  });
+
+  const noLiabilities = BigNumber.from(0);
+
+  it("computes the runway of a balance in days", () => {
+    const emissions = getRewardEmissions(rewardConfig, blocksPerYear);
+    expect(getRunwayDays(BigNumber.from(convertToUnit(1152, 18)), noLiabilities, emissions)?.toNumber()).to.equal(10);
+    expect(getRunwayDays(BigNumber.from(convertToUnit(1000, 18)), noLiabilities, emissions)?.toNumber()).to.equal(8);
+  });
+
+  it("pays the accrued rewards from the balance first", () => {
+    const emissions = getRewardEmissions(rewardConfig, blocksPerYear);
+    const balance = BigNumber.from(convertToUnit(1152, 18));
+    expect(getRunwayDays(balance, BigNumber.from(convertToUnit(576, 18)), emissions)?.toNumber()).to.equal(5);
+    expect(getRunwayDays(balance, BigNumber.from(convertToUnit(2000, 18)), emissions)?.toNumber()).to.equal(0);
+  });
+
+  it("computes runways beyond the range of a number", () => {
+    const emissions = getRewardEmissions({ ...rewardConfig, supplySpeeds: ["1", "0"], borrowSpeeds: ["0", "0"] }, 1);
+    const balance = BigNumber.from(2).pow(200);
+    expect(getRunwayDays(balance, noLiabilities, emissions)?.toString()).to.equal(balance.mul(365).toString());
+  });
+
+  it("has no runway when nothing is emitted", () => {
+    const emissions = getRewardEmissions({ ...rewardConfig, supplySpeeds: ["0", "0"], borrowSpeeds: ["0", "0"] }, 1);
+    expect(getRunwayDays(BigNumber.from(1), noLiabilities, emissions)).to.equal(undefined);
+  });
+});
@@ -0,0 +1,64 @@
+import chai from "chai";
+import hre, { ethers } from "hardhat";
+
+import { RewardConfig, globalConfig } from "../../../helpers/deploymentConfig";
+import { getRewardSpeedCommands } from "../../../helpers/poolCreation";
+import { hasCampaignEnded, toCampaignBlock } from "../../../helpers/rewardCampaigns";
+
+const { expect } = chai;
+
+describe("Reward campaigns", () => {
+  const latestBlock = { number: 1000, timestamp: 1700000000 };
+
+  it("keeps boundaries given as blocks", () => {
+    expect(toCampaignBlock({ block: 1234 }, latestBlock, 3)).to.equal(1234);
+  });
+
+  it("converts timestamps to blocks with the block time of the network", () => {
+    expect(toCampaignBlock({ timestamp: 1700000300 }, latestBlock, 3)).to.equal(1100);
+    expect(toCampaignBlock({ timestamp: 1700000301 }, latestBlock, 3)).to.equal(1101);
+    expect(toCampaignBlock({ timestamp: 1699999700 }, latestBlock, 3)).to.equal(900);
+  });
+
+  it("tells campaigns that ended apart from open and running ones", () => {
+    const window = { currentBlock: 1000, endTolerance: 0 };
+    expect(hasCampaignEnded(window)).to.equal(false);
+    expect(hasCampaignEnded({ ...window, endBlock: 1001 })).to.equal(false);
+    expect(hasCampaignEnded({ ...window, endBlock: 1000 })).to.equal(true);
+  });
+
+  describe("speed commands", () => {
+    const pool = globalConfig.hardhat.poolConfig[0];
+    const [rewardConfig] = pool.rewards || [];
+    // Never read, campaigns that are not running get no commands
+    const rewardsDistributor = "0x0000000000000000000000000000000000000d01";
+    const warnings: string[] = [];
+    const { warn } = console;
+
+    const getCommands = (campaign: Pick<RewardConfig, "start" | "end">) =>
+      getRewardSpeedCommands(pool, rewardsDistributor, { ...rewardConfig, ...campaign }, hre);
+
+    beforeEach(() => {
+      warnings.length = 0;
+      console.warn = (line: string) => warnings.push(line);
+    });
+
+    afterEach(() => {
+      console.warn = warn;
+    });
+
+    it("skips the speeds of campaigns that start later", async () => {
+      const startBlock = (await ethers.provider.getBlockNumber()) + 100;
+      expect(await getCommands({ start: { block: startBlock }, end: { block: startBlock + 100 } })).to.deep.equal([]);
+      expect(warnings).to.deep.equal([
+        `The XVS rewards of Pool 1 start at block ${startBlock}, skipping their speeds until the campaign started`,
+      ]);
+    });
+
+    it("skips the speeds of campaigns that ended", async () => {
+      const endBlock = await ethers.provider.getBlockNumber();
+      expect(await getCommands({ end: { block: endBlock } })).to.deep.equal([]);
+      expect(warnings).to.deep.equal([`The XVS rewards of Pool 1 ended at block ${endBlock}, skipping their speeds`]);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { FakeContract, smock } from "@defi-wonderland/smock";
+import { loadFixture, mine } from "@nomicfoundation/hardhat-network-helpers";
+import chai from "chai";
+import hre, { ethers, upgrades } from "hardhat";
+
+import { RewardConfig } from "../../../helpers/deploymentConfig";
+import { getContributorCommands, getContributorStreams } from "../../../helpers/rewardContributors";
+import { convertToUnit } from "../../../helpers/utils";
+import {
+  AccessControlManager,
+  Comptroller,
+  MockToken,
+  MockToken__factory,
+  RewardsDistributor,
+} from "../../../typechain";
+
+const { expect } = chai;
+
+// Disable a warning about mixing beacons and transparent proxies
+upgrades.silenceWarnings();
+
+const SCAN_OPTIONS = { fromBlock: 0, blockRange: 5000 };
+
+describe("Reward contributors", () => {
+  let rewardsDistributor: RewardsDistributor;
+  let alice: string;
+  let bob: string;
+
+  const rewardConfig = (contributors: RewardConfig["contributors"]): RewardConfig => ({
+    id: "0",
+    asset: "XVS",
+    markets: [],
+    supplySpeeds: [],
+    borrowSpeeds: [],
+    contributors,
+  });
+
+  const rewardsFixture = async () => {
+    const fakeAccessControlManager: FakeContract<AccessControlManager> = await smock.fake<AccessControlManager>(
+      "AccessControlManager",
+    );
+    fakeAccessControlManager.isAllowedToCall.returns(true);
+    const fakeComptroller = await smock.fake<Comptroller>("Comptroller");
+    const MockToken = await ethers.getContractFactory<MockToken__factory>("MockToken");
+    const xvs: MockToken = await MockToken.deploy("Venus Token", "XVS", 18);
+    const RewardsDistributor = await ethers.getContractFactory("RewardsDistributor");
+    const distributor = (await upgrades.deployProxy(RewardsDistributor, [
+      fakeComptroller.address,
+      xvs.address,
+      150,
+      fakeAccessControlManager.address,
+    ])) as RewardsDistributor;
+    await xvs.faucet(convertToUnit(1000, 18));
+    await xvs.transfer(distributor.address, convertToUnit(1000, 18));
+    return distributor;
+  };
+
+  beforeEach(async () => {
+    rewardsDistributor = await loadFixture(rewardsFixture);
+    [, alice, bob] = (await ethers.getSigners()).map(({ address }) => address);
+  });
+
+  it("adds what accrued since the last update to the accrued rewards of a contributor", async () => {
+    await rewardsDistributor.setContributorRewardTokenSpeed(alice, 10);
+    await mine(5);
+    await rewardsDistributor.updateContributorRewards(alice);
+    await mine(3);
+
+    const [stream] = await getContributorStreams(rewardsDistributor.address, hre, SCAN_OPTIONS);
+    expect(stream.contributor).to.equal(alice);
+    expect(stream.speed.toNumber()).to.equal(10);
+    // 6 blocks up to the update, then 3 blocks without any event
+    expect((await rewardsDistributor.rewardTokenAccrued(alice)).toNumber()).to.equal(60);
+    expect(stream.accrued.toNumber()).to.equal(90);
+  });
+
+  it("sets the speeds that differ from the config", async () => {
+    await rewardsDistributor.setContributorRewardTokenSpeed(alice, 10);
+
+    const unchanged = rewardConfig([{ address: alice, speed: "10" }]);
+    expect(await getContributorCommands(rewardsDistributor.address, unchanged, hre, SCAN_OPTIONS)).to.deep.equal([]);
+
+    const changed = rewardConfig([
+      { address: alice, speed: "20" },
+      { address: bob, speed: "5" },
+    ]);
+    const commands = await getContributorCommands(rewardsDistributor.address, changed, hre, SCAN_OPTIONS);
+    expect(commands.map(({ signature, params }) => [signature, params])).to.deep.equal([
+      ["setContributorRewardTokenSpeed(address,uint256)", [alice, "20"]],
+      ["setContributorRewardTokenSpeed(address,uint256)", [bob, "5"]],
+    ]);
+  });
+
+  it("tops grants up to the configured total", async () => {
+    await rewardsDistributor.grantRewardToken(bob, 100);
+
+    const config = rewardConfig([{ address: bob, speed: "0", grant: "150" }]);
+    const commands = await getContributorCommands(rewardsDistributor.address, config, hre, SCAN_OPTIONS);
+    expect(commands.map(({ signature, params }) => [signature, params])).to.deep.equal([
+      ["grantRewardToken(address,uint256)", [bob, "50"]],
+    ]);
+
+    const granted = rewardConfig([{ address: bob, speed: "0", grant: "100" }]);
+    expect(await getContributorCommands(rewardsDistributor.address, granted, hre, SCAN_OPTIONS)).to.deep.equal([]);
+  });
+
+  it("stops the contributors removed from the config", async () => {
+    await rewardsDistributor.setContributorRewardTokenSpeed(alice, 10);
+    await rewardsDistributor.setContributorRewardTokenSpeed(bob, 10);
+
+    const config = rewardConfig([{ address: bob, speed: "10" }]);
+    const commands = await getContributorCommands(rewardsDistributor.address, config, hre, SCAN_OPTIONS);
+    expect(commands.map(({ signature, params }) => [signature, params])).to.deep.equal([
+      ["setContributorRewardTokenSpeed(address,uint256)", [alice, "0"]],
+    ]);
+  });
+
+  it("leaves the contributors alone when the config has no contributors section", async () => {
+    await rewardsDistributor.setContributorRewardTokenSpeed(alice, 10);
+
+    const config = rewardConfig(undefined);
+    expect(await getContributorCommands(rewardsDistributor.address, config, hre, SCAN_OPTIONS)).to.deep.equal([]);
+  });
+
+  it("rejects a contributor given both as a named account and as its address", async () => {
+    const { deployer } = await hre.getNamedAccounts();
+    const config = rewardConfig([
+      { address: "account:deployer", speed: "10" },
+      { address: deployer, speed: "10" },
+    ]);
+    await expect(getContributorCommands(rewardsDistributor.address, config, hre, SCAN_OPTIONS)).to.be.rejectedWith(
+      "is defined more than once",
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import chai from "chai";
+
+import { planRewardsDistributorRenames } from "../../../helpers/rewardsDistributorMigration";
+
+const { expect } = chai;
+
+describe("Rewards distributor migration", () => {
+  const comptroller = "0x23b4404E4E5eC5FF5a6FFb70B7d14E3FabF237B0";
+  const XVS = "0xcF6BB5389c92Bdda8a3747Ddb454cB7a64626C63";
+  const HAY = "0x0782b6d8c4551B9760e74c0545a9bCD90bdc41E5";
+  const deployed = [
+    { name: "RewardsDistributor_Stablecoins_0", comptroller, rewardToken: XVS },
+    { name: "RewardsDistributor_Stablecoins_1", comptroller, rewardToken: HAY },
+  ];
+
+  it("keeps deployments already named after their reward", () => {
+    expect(planRewardsDistributorRenames(deployed, deployed)).to.deep.equal({
+      renames: [],
+      unresolved: [],
+      untracked: [],
+    });
+  });
+
+  it("renames deployments after the id of the reward paying the same token", () => {
+    const configured = [
+      { name: "RewardsDistributor_Stablecoins_HAY", comptroller, rewardToken: HAY },
+      { name: "RewardsDistributor_Stablecoins_XVS", comptroller, rewardToken: XVS },
+    ];
+    expect(planRewardsDistributorRenames(deployed, configured).renames).to.deep.equal([
+      { from: "RewardsDistributor_Stablecoins_0", to: "RewardsDistributor_Stablecoins_XVS" },
+      { from: "RewardsDistributor_Stablecoins_1", to: "RewardsDistributor_Stablecoins_HAY" },
+    ]);
+  });
+
+  it("reports deployments that cannot be told apart", () => {
+    const configured = [
+      { name: "RewardsDistributor_Stablecoins_HAY_1", comptroller, rewardToken: HAY },
+      { name: "RewardsDistributor_Stablecoins_HAY_2", comptroller, rewardToken: HAY },
+    ];
+    const hayDeployments = [...deployed, { name: "RewardsDistributor_Stablecoins_2", comptroller, rewardToken: HAY }];
+    expect(planRewardsDistributorRenames(hayDeployments, configured).unresolved).to.deep.equal([
+      {
+        name: "RewardsDistributor_Stablecoins_1",
+        reason: "could be any of RewardsDistributor_Stablecoins_HAY_1, RewardsDistributor_Stablecoins_HAY_2",
+      },
+      {
+        name: "RewardsDistributor_Stablecoins_2",
+        reason: "could be any of RewardsDistributor_Stablecoins_HAY_1, RewardsDistributor_Stablecoins_HAY_2",
+      },
+    ]);
+  });
+
+  it("leaves alone the deployments the config has no reward for", () => {
+    // Like bsctestnet, where most distributors were set up before the rewards were added to the config
+    const configured = [{ name: "RewardsDistributor_Stablecoins_XVS", comptroller, rewardToken: XVS }];
+    const otherPool = "0x1111111111111111111111111111111111111111";
+    const untrackedDeployments = [
+      ...deployed,
+      { name: "RewardsDistributor_DeFi_0", comptroller: otherPool, rewardToken: XVS },
+    ];
+    expect(planRewardsDistributorRenames(untrackedDeployments, configured)).to.deep.equal({
+      renames: [{ from: "RewardsDistributor_Stablecoins_0", to: "RewardsDistributor_Stablecoins_XVS" }],
+      unresolved: [],
+      untracked: ["RewardsDistributor_Stablecoins_1", "RewardsDistributor_DeFi_0"],
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import chai from "chai";
+import { Wallet, providers, utils } from "ethers";
+import fs from "fs";
+import hre, { ethers, network } from "hardhat";
+import { HardhatConfig } from "hardhat/types";
+import os from "os";
+import path from "path";
+
+import { SignerConfig } from "../../../helpers/networks";
+import { extendWithSigner } from "../../../helpers/signerProviders";
+
+const { expect } = chai;
+
+describe("Signer providers", () => {
+  const wallet = Wallet.createRandom();
+  const receiver = Wallet.createRandom().address;
+  const keystorePath = path.join(os.tmpdir(), `keystore-${wallet.address}.json`);
+
+  // Provider of a live network signing with the given signer, served by the local network
+  const withSigner = (signer: SignerConfig) => {
+    const config: HardhatConfig = {
+      ...hre.config,
+      networks: { ...hre.config.networks, signed: { ...hre.config.networks.localhost, signer } },
+    };
+    return new providers.Web3Provider(extendWithSigner(network.provider, config, "signed"));
+  };
+
+  before(async () => {
+    await network.provider.send("hardhat_setBalance", [wallet.address, utils.hexValue(utils.parseEther("1"))]);
+    fs.writeFileSync(keystorePath, await wallet.encrypt("passphrase", { scrypt: { N: 1024 } }));
+  });
+
+  afterEach(() => {
+    delete process.env.TEST_SIGNER_KEY;
+    delete process.env.TEST_SIGNER_PASSPHRASE;
+  });
+
+  after(() => {
+    fs.rmSync(keystorePath);
+  });
+
+  it("leaves networks without a signer untouched", () => {
+    expect(extendWithSigner(network.provider, hre.config, "hardhat")).to.equal(network.provider);
+  });
+
+  describe("env", () => {
+    it("reads the key only when an account is needed", async () => {
+      const provider = withSigner({ type: "env", variable: "TEST_SIGNER_KEY" });
+      expect(await provider.getBlockNumber()).to.equal(await ethers.provider.getBlockNumber());
+      await expect(provider.listAccounts()).to.be.rejectedWith(
+        "signed signs with the private key in TEST_SIGNER_KEY, which is not set",
+      );
+    });
+
+    it("signs the transactions with the key of the variable", async () => {
+      process.env.TEST_SIGNER_KEY = wallet.privateKey.slice(2);
+      const provider = withSigner({ type: "env", variable: "TEST_SIGNER_KEY" });
+      expect(await provider.listAccounts()).to.deep.equal([wallet.address]);
+
+      const tx = await provider.getSigner().sendTransaction({ to: receiver, value: 1 });
+      await tx.wait();
+      expect(tx.from).to.equal(wallet.address);
+      expect(await ethers.provider.getBalance(receiver)).to.equal(1);
+    });
+  });
+
+  describe("keystore", () => {
+    const keystore: SignerConfig = {
+      type: "keystore",
+      path: keystorePath,
+      passphraseVariable: "TEST_SIGNER_PASSPHRASE",
+    };
+
+    it("decrypts the keystore with the passphrase of the variable", async () => {
+      process.env.TEST_SIGNER_PASSPHRASE = "passphrase";
+      const provider = withSigner(keystore);
+      expect(await provider.listAccounts()).to.deep.equal([wallet.address]);
+
+      const signature = await provider.getSigner().signMessage("deployment");
+      expect(utils.verifyMessage("deployment", signature)).to.equal(wallet.address);
+    });
+
+    it("rejects a wrong passphrase", async () => {
+      process.env.TEST_SIGNER_PASSPHRASE = "wrong passphrase";
+      const provider = withSigner(keystore);
+      await expect(provider.listAccounts()).to.be.rejectedWith("invalid password");
+    });
+  });
+
+  describe("none", () => {
+    it("serves no account and sends no transaction", async () => {
+      const provider = withSigner({ type: "none" });
+      expect(await provider.getBlockNumber()).to.equal(await ethers.provider.getBlockNumber());
+      expect(await provider.listAccounts()).to.deep.equal([]);
+      await expect(provider.send("eth_sendTransaction", [{ from: wallet.address, to: receiver }])).to.be.rejectedWith(
+        "signed is configured without a signer, eth_sendTransaction is not available",
+      );
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import chai from "chai";
+import hre, { ethers } from "hardhat";
+
+import { DeploymentConfig, globalConfig } from "../../../helpers/deploymentConfig";
+import { getTimelockRouter } from "../../../helpers/deploymentUtils";
+import { ProposalType } from "../../../helpers/governance";
+
+const { expect } = chai;
+
+describe("Timelock routing", () => {
+  const NormalTimelock = "0x0000000000000000000000000000000000000A01";
+  const FastTrackTimelock = "0x0000000000000000000000000000000000000a02";
+  const CriticalTimelock = "0x0000000000000000000000000000000000000a03";
+  const comptroller = "0x0000000000000000000000000000000000000c01";
+  const ANY_CONTRACT = ethers.constants.AddressZero;
+
+  const withPermissions = (
+    addresses: { [name: string]: string },
+    accessControlConfig: DeploymentConfig["accessControlConfig"],
+  ): DeploymentConfig => ({
+    ...globalConfig.hardhat,
+    preconfiguredAddresses: addresses,
+    accessControlConfig,
+  });
+
+  const command = (signature: string, target = comptroller) => ({ target, signature, params: [], value: 0 });
+
+  const config = withPermissions({ NormalTimelock, FastTrackTimelock, CriticalTimelock }, [
+    { caller: NormalTimelock, target: ANY_CONTRACT, method: "setCollateralFactor(address,uint256,uint256)" },
+    { caller: NormalTimelock, target: ANY_CONTRACT, method: "setReserveFactor(uint256)" },
+    { caller: NormalTimelock, target: ANY_CONTRACT, method: "setMarketSupplyCaps(address[],uint256[])" },
+    { caller: FastTrackTimelock, target: ANY_CONTRACT, method: "setMarketSupplyCaps(address[],uint256[])" },
+    { caller: CriticalTimelock, target: comptroller, method: "setCollateralFactor(address,uint256,uint256)" },
+  ]);
+
+  it("routes a command to the fastest timelock allowed to call it", async () => {
+    const route = await getTimelockRouter(config, hre);
+    expect(route(command("setCollateralFactor(address,uint256,uint256)"))).to.equal(ProposalType.CRITICAL);
+    expect(route(command("setMarketSupplyCaps(address[],uint256[])"))).to.equal(ProposalType.FASTTRACK);
+    expect(route(command("setReserveFactor(uint256)"))).to.equal(ProposalType.NORMAL);
+  });
+
+  it("only uses permissions granted on the target or on any contract", async () => {
+    const route = await getTimelockRouter(config, hre);
+    const otherComptroller = "0x0000000000000000000000000000000000000c02";
+    expect(route(command("setCollateralFactor(address,uint256,uint256)", otherComptroller))).to.equal(
+      ProposalType.NORMAL,
+    );
+  });
+
+  it("routes commands that are not access controlled to the normal timelock", async () => {
+    const route = await getTimelockRouter(config, hre);
+    expect(route(command("acceptOwnership()"))).to.equal(ProposalType.NORMAL);
+  });
+
+  it("keeps every command normal when one multisig stands for all timelocks", async () => {
+    const multisig = withPermissions(
+      { NormalTimelock, FastTrackTimelock: NormalTimelock, CriticalTimelock: NormalTimelock },
+      [{ caller: NormalTimelock, target: ANY_CONTRACT, method: "setMarketSupplyCaps(address[],uint256[])" }],
+    );
+    const route = await getTimelockRouter(multisig, hre);
+    expect(route(command("setMarketSupplyCaps(address[],uint256[])"))).to.equal(ProposalType.NORMAL);
+  });
+});
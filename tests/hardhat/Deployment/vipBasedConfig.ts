@@ -0,0 +1,43 @@
+import chai from "chai";
+import hre, { deployments, ethers } from "hardhat";
+
+import { globalConfig } from "../../../helpers/deploymentConfig";
+import { getUnregisteredPools, getUnregisteredVTokens, getVTokenName } from "../../../helpers/deploymentUtils";
+import { VToken } from "../../../typechain";
+
+const { expect } = chai;
+
+describe("VIP based config", () => {
+  const { poolConfig } = globalConfig.hardhat;
+  const [vTokenConfig] = poolConfig[0].vtokens;
+  const { reduceReservesBlockDelta } = vTokenConfig;
+
+  before(async () => {
+    await deployments.fixture();
+  });
+
+  after(() => {
+    vTokenConfig.reduceReservesBlockDelta = reduceReservesBlockDelta;
+    delete process.env.UPDATE_LISTED_MARKETS;
+  });
+
+  it("finds the deployed pools and markets registered", async () => {
+    expect(await getUnregisteredPools(poolConfig, hre)).to.deep.equal([]);
+    const unregisteredVTokens = await getUnregisteredVTokens(poolConfig, hre);
+    expect(unregisteredVTokens.flatMap(pool => pool.vtokens)).to.deep.equal([]);
+  });
+
+  it("only updates the parameters of a listed market", async () => {
+    vTokenConfig.reduceReservesBlockDelta = "200";
+    process.env.UPDATE_LISTED_MARKETS = "true";
+    const blockNumber = await ethers.provider.getBlockNumber();
+
+    await deployments.run("VIP", { resetMemory: false, writeDeploymentsToFiles: false });
+
+    // Listing the market again would revert, the update is the only transaction
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber + 1);
+    const { address } = await deployments.get(getVTokenName(vTokenConfig));
+    const vToken = await ethers.getContractAt<VToken>("VToken", address);
+    expect(await vToken.reduceReservesBlockDelta()).to.equal(200);
+  });
+});
@@ -0,0 +1,118 @@
+import chai from "chai";
+import fs from "fs";
+import hre, { deployments, ethers } from "hardhat";
+import os from "os";
+import path from "path";
+
+import { DeploymentConfig, globalConfig } from "../../../helpers/deploymentConfig";
+import { ProposalType, VipCommand, buildProposal, cmd } from "../../../helpers/governance";
+import { getVipBasedConfigCommands } from "../../../helpers/vipBasedConfig";
+import { executeVipCommands, getVipPostConditionFailures, getVipTimelock } from "../../../helpers/vipSimulation";
+import { Comptroller } from "../../../typechain";
+
+const { expect } = chai;
+
+describe("VIP simulation", () => {
+  const config = globalConfig.hardhat;
+  const [vTokenConfig] = config.poolConfig[0].vtokens;
+  const { reduceReservesBlockDelta } = vTokenConfig;
+  let deployer: string;
+
+  beforeEach(async () => {
+    await deployments.fixture();
+    ({ deployer } = await hre.getNamedAccounts());
+  });
+
+  afterEach(() => {
+    vTokenConfig.reduceReservesBlockDelta = reduceReservesBlockDelta;
+  });
+
+  it("holds the post-conditions on the local deployment", async () => {
+    expect(await getVipPostConditionFailures(config, hre)).to.deep.equal([]);
+  });
+
+  it("reports the post-conditions the VIP commands have not reached yet", async () => {
+    vTokenConfig.reduceReservesBlockDelta = "200";
+    expect(await getVipPostConditionFailures(config, hre)).to.deep.equal([
+      { contract: "VToken_vBNX", field: "reduceReservesBlockDelta", expected: "200", actual: "100" },
+    ]);
+
+    const commands = await getVipBasedConfigCommands(config, { updateListedMarkets: true }, hre);
+    expect(commands.map(({ signature }) => signature)).to.deep.equal(["setReduceReservesBlockDelta(uint256)"]);
+    await executeVipCommands(commands, deployer);
+
+    expect(await getVipPostConditionFailures(config, hre)).to.deep.equal([]);
+  });
+
+  it("reports the command that reverts", async () => {
+    const comptrollerDeployment = await deployments.get("Comptroller_Pool1");
+    const comptroller = await ethers.getContractAt<Comptroller>("Comptroller", comptrollerDeployment.address);
+    const vToken = await deployments.get("VToken_vBNX");
+    // The deployer is not allowed to set collateral factors on the local deployment
+    const commands = [cmd(comptroller, "setCollateralFactor", [vToken.address, 0, 0])];
+    await expect(executeVipCommands(commands, deployer)).to.be.rejectedWith(
+      `Command #0 (${comptroller.address}.setCollateralFactor(address,uint256,uint256)) failed`,
+    );
+  });
+});
+
+describe("VIP simulation timelocks", () => {
+  const timelocks = {
+    NormalTimelock: "0x0000000000000000000000000000000000000a01",
+    FastTrackTimelock: "0x0000000000000000000000000000000000000a02",
+    CriticalTimelock: "0x0000000000000000000000000000000000000a03",
+  };
+  const governorBravo = "0x0000000000000000000000000000000000000b01";
+  const commands: VipCommand[] = [
+    { target: "0x0000000000000000000000000000000000000c01", signature: "acceptOwnership()", params: [], value: 0 },
+  ];
+  const config: DeploymentConfig = {
+    ...globalConfig.hardhat,
+    preconfiguredAddresses: { ...globalConfig.hardhat.preconfiguredAddresses, ...timelocks },
+  };
+  let dir: string;
+
+  const writeFile = (name: string, contents: unknown): string => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, JSON.stringify(contents));
+    return filePath;
+  };
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vip-simulation-"));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it("executes each proposal as the timelock of its proposal type", () => {
+    const proposals = {
+      "vip.json": ProposalType.NORMAL,
+      "vip-fasttrack.json": ProposalType.FASTTRACK,
+      "vip-critical.json": ProposalType.CRITICAL,
+    };
+    const executors = Object.entries(proposals).map(([name, proposalType]) =>
+      getVipTimelock(writeFile(name, buildProposal(commands, governorBravo, "VIP", proposalType)), config),
+    );
+    expect(executors).to.deep.equal([
+      timelocks.NormalTimelock,
+      timelocks.FastTrackTimelock,
+      timelocks.CriticalTimelock,
+    ]);
+  });
+
+  it("executes command files as NormalTimelock", () => {
+    expect(getVipTimelock(writeFile("commands.json", commands), config)).to.equal(timelocks.NormalTimelock);
+  });
+
+  it("rejects a proposal queued in a timelock the network does not configure", () => {
+    const filePath = writeFile(
+      "vip-critical.json",
+      buildProposal(commands, governorBravo, "VIP", ProposalType.CRITICAL),
+    );
+    expect(() => getVipTimelock(filePath, globalConfig.hardhat)).to.throw(
+      `CriticalTimelock is not configured, the commands of ${filePath} cannot be executed`,
+    );
+  });
+});